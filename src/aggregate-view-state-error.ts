@@ -0,0 +1,19 @@
+/**
+ * Represents several errors wrapped in a single one, such as the errors of the failure states merged by the `LoadableViewState` combinators.
+ */
+export class AggregateViewStateError extends Error {
+    /**
+     * Creates an error wrapping the given errors.
+     *
+     * @param {Error[]} errors - The wrapped errors.
+     * @param {string} message - The message of the error.
+     */
+    constructor(
+        public readonly errors: readonly Error[],
+        message: string = `${errors.length} errors occurred`,
+    ) {
+        super(message);
+        this.name = 'AggregateViewStateError';
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
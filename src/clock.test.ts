@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { systemClock } from './clock';
+
+describe('systemClock', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('given a scheduled callback when the delay elapses then the callback is called', () => {
+        const callback = jest.fn<() => void>();
+
+        systemClock.schedule(callback, 1000);
+        jest.advanceTimersByTime(999);
+        expect(callback).not.toBeCalled();
+        jest.advanceTimersByTime(1);
+
+        expect(callback).toBeCalledTimes(1);
+    });
+
+    test('given a cancelled callback when the delay elapses then the callback is not called', () => {
+        const callback = jest.fn<() => void>();
+
+        const cancel = systemClock.schedule(callback, 1000);
+        cancel();
+        jest.advanceTimersByTime(1000);
+
+        expect(callback).not.toBeCalled();
+    });
+
+    test('given the current time when getting the time then the epoch milliseconds are retrieved', () => {
+        jest.setSystemTime(1234);
+        expect(systemClock.now()).toBe(1234);
+    });
+});
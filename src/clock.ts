@@ -0,0 +1,25 @@
+/**
+ * A source of the current time and of delayed callbacks, so that time-based behavior can be driven by a fake clock in tests.
+ */
+export interface Clock {
+    /**
+     * Returns the current time in milliseconds since the epoch.
+     */
+    now(): number;
+
+    /**
+     * Runs the given callback after the given delay and returns a function that cancels it.
+     */
+    schedule(callback: () => void, delay: number): () => void;
+}
+
+/**
+ * The clock backed by `Date.now` and `setTimeout`.
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    schedule: (callback, delay) => {
+        const timeout = setTimeout(callback, delay);
+        return () => clearTimeout(timeout);
+    },
+};
@@ -0,0 +1,128 @@
+import { describe, expect, test } from '@jest/globals';
+import { EditableFormViewState } from './editable-form-view-state';
+import { EditableViewState } from './editable-view-state';
+
+describe('EditableFormViewState', () => {
+    const initialValues = { name: 'Ada', age: 36, email: 'ada@example.com' };
+    const error = Error('error');
+
+    const givenAnInitialFormViewState = () => EditableFormViewState.initial(initialValues);
+    const givenAnEditedFormViewState = () => givenAnInitialFormViewState().edit('name', 'Grace').edit('age', 45);
+    const givenACommittedFormViewState = () => givenAnEditedFormViewState().commitDirty();
+
+    describe('initial', () => {
+        test('given initial values when creating a form view state then every field is initial and nothing is dirty', () => {
+            const formViewState = givenAnInitialFormViewState();
+
+            expect(formViewState.field('name')).toEqual(EditableViewState.initial('Ada'));
+            expect(formViewState.field('age')).toEqual(EditableViewState.initial(36));
+            expect(formViewState.values).toEqual(initialValues);
+            expect(formViewState.dirtyFields).toEqual([]);
+            expect(formViewState.isSaved).toBe(true);
+        });
+    });
+
+    describe('edit', () => {
+        test('given an initial form view state when editing fields then they are dirty and their states are unchanged', () => {
+            const formViewState = givenAnEditedFormViewState();
+
+            expect(formViewState.values).toEqual({ ...initialValues, name: 'Grace', age: 45 });
+            expect(formViewState.originalValues).toEqual(initialValues);
+            expect(formViewState.dirtyFields).toEqual(['name', 'age']);
+            expect(formViewState.field('name')).toEqual(EditableViewState.initial('Ada'));
+            expect([formViewState.isDirty, formViewState.isSaved]).toEqual([true, false]);
+        });
+
+        test('given an edited field when editing it back to its original value then it is no longer dirty', () => {
+            const formViewState = givenAnEditedFormViewState().edit('name', 'Ada');
+
+            expect(formViewState.isFieldDirty('name')).toBe(false);
+            expect(formViewState.dirtyFields).toEqual(['age']);
+        });
+
+        test('given a field comparator when editing the field with an equal value then it is not dirty', () => {
+            const tagsEqual = (tags: string[], otherTags: string[]) => tags.join() === otherTags.join();
+            const formViewState = EditableFormViewState.initial({ name: 'Ada', tags: ['math'] }, { isEqual: { tags: tagsEqual } })
+                .edit('tags', ['math'])
+                .edit('name', 'Grace');
+
+            expect(formViewState.isFieldDirty('tags')).toBe(false);
+            expect(formViewState.dirtyFields).toEqual(['name']);
+            expect(formViewState.commitDirty().succeed('name').isDirty).toBe(false);
+        });
+    });
+
+    describe('commit', () => {
+        test('given edited fields when committing the dirty ones then every dirty field is being saved', () => {
+            const formViewState = givenACommittedFormViewState();
+
+            expect(formViewState.field('name')).toEqual(EditableViewState.loading('Ada', 'Grace'));
+            expect(formViewState.field('age')).toEqual(EditableViewState.loading(36, 45));
+            expect(formViewState.field('email')).toEqual(EditableViewState.initial('ada@example.com'));
+            expect(formViewState.isSaving).toBe(true);
+        });
+
+        test('given edited fields when committing one of them then only that field is being saved', () => {
+            const formViewState = givenAnEditedFormViewState().commit('age');
+
+            expect(formViewState.field('name')).toEqual(EditableViewState.initial('Ada'));
+            expect(formViewState.field('age')).toEqual(EditableViewState.loading(36, 45));
+        });
+
+        test.each([[givenAnInitialFormViewState()], [givenACommittedFormViewState()]])(
+            'given %p without fields to commit when committing the dirty ones then the same state is retrieved',
+            (formViewState) => {
+                expect(formViewState.commitDirty()).toBe(formViewState);
+            },
+        );
+    });
+
+    describe('succeed and fail', () => {
+        test('given committed fields when their saves succeed then they are saved and no longer dirty', () => {
+            const formViewState = givenACommittedFormViewState().succeed('name').succeed('age');
+
+            expect(formViewState.field('name')).toEqual(EditableViewState.success('Ada', 'Grace'));
+            expect(formViewState.originalValues).toEqual({ ...initialValues, name: 'Grace', age: 45 });
+            expect([formViewState.isDirty, formViewState.isSaving, formViewState.hasFailure, formViewState.isSaved]).toEqual([false, false, false, true]);
+        });
+
+        test('given committed fields when a save fails then the field rolls back and stays dirty', () => {
+            const formViewState = givenACommittedFormViewState().succeed('name').fail('age', error);
+
+            expect(formViewState.field('age')).toEqual(EditableViewState.failure(36, 45, error));
+            expect(formViewState.dirtyFields).toEqual(['age']);
+            expect([formViewState.isSaving, formViewState.hasFailure, formViewState.isSaved]).toEqual([false, true, false]);
+        });
+
+        test('given a field that is not being saved when settling it then the same state is retrieved', () => {
+            const formViewState = givenAnEditedFormViewState();
+
+            expect(formViewState.succeed('name')).toBe(formViewState);
+            expect(formViewState.fail('name', error)).toBe(formViewState);
+        });
+    });
+
+    describe('resetFailed', () => {
+        test('given a failed field when resetting the failed ones then it returns to its original value', () => {
+            const formViewState = givenACommittedFormViewState().succeed('name').fail('age', error).resetFailed();
+
+            expect(formViewState.field('age')).toEqual(EditableViewState.initial(36));
+            expect(formViewState.values).toEqual({ ...initialValues, name: 'Grace' });
+            expect(formViewState.isSaved).toBe(true);
+        });
+
+        test('given no failed field when resetting the failed ones then the same state is retrieved', () => {
+            const formViewState = givenAnEditedFormViewState();
+
+            expect(formViewState.resetFailed()).toBe(formViewState);
+        });
+    });
+
+    describe('toString', () => {
+        test('given a form view state when converting to string then its counts are described', () => {
+            const formViewState = givenACommittedFormViewState().fail('age', error);
+
+            expect(formViewState.toString()).toBe('Form: 3 fields, 2 dirty, 1 saving, 1 failed');
+        });
+    });
+});
@@ -0,0 +1,263 @@
+import { EditableViewState } from './editable-view-state';
+
+/**
+ * The EditableViewStates of the fields of a form, keyed by field name.
+ *
+ * @template Values The record of the values of the fields.
+ */
+export type EditableFormFields<Values extends object> = { readonly [Key in keyof Values]: EditableViewState<Values[Key]> };
+
+/**
+ * The functions that return true if two values of a field are equal, keyed by field name.
+ *
+ * @template Values The record of the values of the fields.
+ */
+export type EditableFormFieldComparators<Values extends object> = {
+    readonly [Key in keyof Values]?: (value: Values[Key], otherValue: Values[Key]) => boolean;
+};
+
+/**
+ * The options of an EditableFormViewState.
+ *
+ * @template Values The record of the values of the fields.
+ */
+export interface EditableFormViewStateOptions<Values extends object> {
+    /** The functions comparing the edited value of a field with its original value, keyed by field name. Defaults to `Object.is` for every field. */
+    readonly isEqual?: EditableFormFieldComparators<Values>;
+}
+
+/**
+ * Represents the state of a form whose fields are saved independently, each one tracked by an EditableViewState, together with the values being edited.
+ *
+ * A field is dirty when its edited value differs from its original value, which is the initial value or the latest saved one, as compared by the
+ * comparator of the field or `Object.is`. Dirty fields can be committed all at once, and every committed field is then settled on its own as its save
+ * succeeds or fails.
+ *
+ * @template Values The record of the values of the fields, inferred from the initial values.
+ */
+export class EditableFormViewState<Values extends object> {
+    private constructor(
+        public readonly fields: EditableFormFields<Values>,
+        public readonly values: Values,
+        private readonly isEqual: EditableFormFieldComparators<Values>,
+    ) {}
+
+    /**
+     * Returns an instance whose fields are in the initial state with the given values, none of them being dirty.
+     *
+     * @template Values
+     * @param {Values} values - The record of the initial values of the fields.
+     * @param {EditableFormViewStateOptions<Values>} options - The comparators of the fields.
+     * @return {EditableFormViewState<Values>} A new instance of EditableFormViewState in the initial state.
+     */
+    static initial<Values extends object>(values: Values, options: EditableFormViewStateOptions<Values> = {}): EditableFormViewState<Values> {
+        return new EditableFormViewState(
+            mapFields(values, (name) => EditableViewState.initial(values[name])),
+            values,
+            options.isEqual ?? {},
+        );
+    }
+
+    /**
+     * Returns the state of the given field.
+     *
+     * @template Key
+     * @param {Key} name - The name of the field.
+     * @return {EditableViewState<Values[Key]>} The state of the field.
+     */
+    field<Key extends keyof Values>(name: Key): EditableViewState<Values[Key]> {
+        return this.fields[name];
+    }
+
+    /**
+     * Returns the original values of the fields: their initial values, or the latest saved ones.
+     *
+     * @return {Values} The record of the original values of the fields.
+     */
+    get originalValues(): Values {
+        return mapFields(this.values, (name) => this.fields[name].getRelevant());
+    }
+
+    /**
+     * Returns true if the edited value of the given field differs from its original value.
+     *
+     * @param {keyof Values} name - The name of the field.
+     * @return {boolean} True if the field is dirty.
+     */
+    isFieldDirty(name: keyof Values): boolean {
+        const isEqual = this.isEqual[name] ?? Object.is;
+        return !isEqual(this.values[name], this.fields[name].getRelevant());
+    }
+
+    /**
+     * Returns the names of the dirty fields, in the order of the initial values.
+     *
+     * @return {(keyof Values)[]} The names of the dirty fields.
+     */
+    get dirtyFields(): (keyof Values)[] {
+        return namesOf(this.values).filter((name) => this.isFieldDirty(name));
+    }
+
+    /**
+     * Returns true if any field is dirty.
+     *
+     * @return {boolean} True if any field is dirty.
+     */
+    get isDirty(): boolean {
+        return this.dirtyFields.length > 0;
+    }
+
+    /**
+     * Returns true if any field is being saved.
+     *
+     * @return {boolean} True if any field is in a loading state.
+     */
+    get isSaving(): boolean {
+        return this.count((field) => field.isLoading) > 0;
+    }
+
+    /**
+     * Returns true if the save of any field failed.
+     *
+     * @return {boolean} True if any field is in a failure state.
+     */
+    get hasFailure(): boolean {
+        return this.count((field) => field.isFailure) > 0;
+    }
+
+    /**
+     * Returns true if every edited value is saved: no field is dirty, being saved, or failed.
+     *
+     * @return {boolean} True if every field is saved.
+     */
+    get isSaved(): boolean {
+        return !this.isDirty && !this.isSaving && !this.hasFailure;
+    }
+
+    /**
+     * Returns a state where the given field is edited with the given value. The state of the field is unchanged until the value is committed.
+     *
+     * @template Key
+     * @param {Key} name - The name of the field.
+     * @param {Values[Key]} value - The edited value of the field.
+     * @return {EditableFormViewState<Values>} A new instance of EditableFormViewState with the edited value.
+     */
+    edit<Key extends keyof Values>(name: Key, value: Values[Key]): EditableFormViewState<Values> {
+        return new EditableFormViewState(this.fields, withField(this.values, name, value), this.isEqual);
+    }
+
+    /**
+     * Returns a state where the given field is being saved with its edited value. Returns this state unchanged if the field is not dirty or is already
+     * being saved.
+     *
+     * @param {keyof Values} name - The name of the field.
+     * @return {EditableFormViewState<Values>} A new instance of EditableFormViewState saving the field, or the current state.
+     */
+    commit(name: keyof Values): EditableFormViewState<Values> {
+        return this.commitFields([name]);
+    }
+
+    /**
+     * Returns a state where every dirty field that is not already being saved is being saved with its edited value.
+     *
+     * @return {EditableFormViewState<Values>} A new instance of EditableFormViewState saving the dirty fields.
+     */
+    commitDirty(): EditableFormViewState<Values> {
+        return this.commitFields(this.dirtyFields);
+    }
+
+    /**
+     * Returns a state where the save of the given field succeeded, so its edited value becomes its original value. Returns this state unchanged if the
+     * field is not being saved.
+     *
+     * @template Key
+     * @param {Key} name - The name of the field.
+     * @return {EditableFormViewState<Values>} A new instance of EditableFormViewState with the saved field, or the current state.
+     */
+    succeed<Key extends keyof Values>(name: Key): EditableFormViewState<Values> {
+        const field = this.fields[name];
+        if (!field.isLoading) return this;
+        return new EditableFormViewState(withField(this.fields, name, field.succeed()), this.values, this.isEqual);
+    }
+
+    /**
+     * Returns a state where the save of the given field failed with the given error. The field rolls back to its original value and stays dirty, so it can
+     * be committed again. Returns this state unchanged if the field is not being saved.
+     *
+     * @template Key
+     * @param {Key} name - The name of the field.
+     * @param {Error} error - The error the save failed with.
+     * @return {EditableFormViewState<Values>} A new instance of EditableFormViewState with the failed field, or the current state.
+     */
+    fail<Key extends keyof Values>(name: Key, error: Error): EditableFormViewState<Values> {
+        const field = this.fields[name];
+        if (!field.isLoading) return this;
+        return new EditableFormViewState(withField(this.fields, name, field.fail(error)), this.values, this.isEqual);
+    }
+
+    /**
+     * Returns a state where every failed field returns to the initial state with its original value, discarding its edited value.
+     *
+     * @return {EditableFormViewState<Values>} A new instance of EditableFormViewState without failed fields.
+     */
+    resetFailed(): EditableFormViewState<Values> {
+        const failedFields = namesOf(this.values).filter((name) => this.fields[name].isFailure);
+        if (failedFields.length === 0) return this;
+        return failedFields.reduce<EditableFormViewState<Values>>((formViewState, name) => {
+            const original = formViewState.fields[name].getRelevant();
+            return new EditableFormViewState(
+                withField(formViewState.fields, name, EditableViewState.initial(original)),
+                withField(formViewState.values, name, original),
+                this.isEqual,
+            );
+        }, this);
+    }
+
+    /**
+     * Converts the current state into a string representation.
+     *
+     * @return {string} A string describing the number of fields and how many of them are dirty, being saved, or failed.
+     */
+    toString(): string {
+        const saving = this.count((field) => field.isLoading);
+        const failed = this.count((field) => field.isFailure);
+        return `Form: ${namesOf(this.values).length} fields, ${this.dirtyFields.length} dirty, ${saving} saving, ${failed} failed`;
+    }
+
+    private count(predicate: (field: EditableViewState<unknown>) => boolean): number {
+        return namesOf(this.values).filter((name) => predicate(this.fields[name])).length;
+    }
+
+    private commitFields(names: readonly (keyof Values)[]): EditableFormViewState<Values> {
+        const committedFields = names.filter((name) => this.isFieldDirty(name) && !this.fields[name].isLoading);
+        if (committedFields.length === 0) return this;
+        return new EditableFormViewState(
+            committedFields.reduce((fields, name) => withField(fields, name, fields[name].startSaving(this.values[name])), this.fields),
+            this.values,
+            this.isEqual,
+        );
+    }
+}
+
+function namesOf<Values extends object>(values: Values): (keyof Values)[] {
+    return Object.keys(values) as (keyof Values)[];
+}
+
+function mapFields<Values extends object, Fields extends { readonly [Key in keyof Values]: unknown }>(
+    values: Values,
+    transform: <Key extends keyof Values>(name: Key) => Fields[Key],
+): Fields {
+    return namesOf(values).reduce(
+        (fields, name) => {
+            fields[name] = transform(name);
+            return fields;
+        },
+        {} as { [Key in keyof Values]: Fields[Key] },
+    ) as Fields;
+}
+
+function withField<Target extends object, Key extends keyof Target>(record: Target, name: Key, value: Target[Key]): Target {
+    const copy = { ...record };
+    copy[name] = value;
+    return copy;
+}
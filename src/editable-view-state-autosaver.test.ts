@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { EditableViewState } from './editable-view-state';
+import { EditableViewStateAutosaver } from './editable-view-state-autosaver';
+import { FakeClock } from './test-support/fake-clock';
+
+describe('EditableViewStateAutosaver', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const givenADeferred = () => {
+        let resolve: () => void = () => {};
+        let reject: (reason: unknown) => void = () => {};
+        const promise = new Promise<void>((promiseResolve, promiseReject) => {
+            resolve = promiseResolve;
+            reject = promiseReject;
+        });
+        return { promise, resolve, reject };
+    };
+
+    const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+    const givenAClockAt = (time: number) => new FakeClock(time);
+
+    const onStateChange = jest.fn<(viewState: EditableViewState<string>) => void>();
+    const emittedStates = () => onStateChange.mock.calls.map(([viewState]) => viewState);
+
+    const givenAnAutosaver = (save: (target: string, signal: AbortSignal) => Promise<void>, clock: FakeClock) =>
+        new EditableViewStateAutosaver<string>('initial', save, onStateChange, { clock });
+
+    test('given rapid changes when the delay elapses then only the latest value is saved', async () => {
+        const clock = new FakeClock();
+        const save = jest.fn((_target: string) => Promise.resolve());
+        const autosaver = givenAnAutosaver(save, clock);
+
+        autosaver.change('a');
+        autosaver.change('ab');
+        autosaver.change('abc');
+
+        expect(onStateChange).not.toBeCalled();
+        expect(autosaver.optimisticValue).toBe('abc');
+        expect(autosaver.hasPendingChanges).toBe(true);
+
+        clock.advance(500);
+        await flushPromises();
+
+        expect(save.mock.calls.map(([target]) => target)).toEqual(['abc']);
+        expect(emittedStates()).toEqual([
+            EditableViewState.loading('initial', 'abc', undefined, givenAClockAt(500)),
+            EditableViewState.success('initial', 'abc', givenAClockAt(500)),
+        ]);
+        expect(autosaver.hasPendingChanges).toBe(false);
+    });
+
+    test('given a change during a save when the saves settle then they are serialized in order', async () => {
+        const clock = new FakeClock();
+        const firstSave = givenADeferred();
+        const save = jest.fn<(target: string) => Promise<void>>().mockReturnValueOnce(firstSave.promise).mockResolvedValueOnce(undefined);
+        const autosaver = givenAnAutosaver(save, clock);
+
+        autosaver.change('first');
+        clock.advance(500);
+        autosaver.change('second');
+        clock.advance(500);
+
+        expect(save).toBeCalledTimes(1);
+
+        firstSave.resolve();
+        const viewState = await autosaver.flush();
+
+        expect(save.mock.calls.map(([target]) => target)).toEqual(['first', 'second']);
+        expect(viewState).toEqual(EditableViewState.success('first', 'second', givenAClockAt(1000)));
+        expect(emittedStates()).toEqual([
+            EditableViewState.loading('initial', 'first', undefined, givenAClockAt(500)),
+            EditableViewState.success('initial', 'first', givenAClockAt(1000)),
+            EditableViewState.success('initial', 'first', givenAClockAt(1000)).startSaving('second', givenAClockAt(1000)),
+            EditableViewState.success('first', 'second', givenAClockAt(1000)),
+        ]);
+        expect(emittedStates()[2]?.loadedAt).toBe(1000);
+    });
+
+    test('given a change during a save when the save settles before the delay elapses then the change waits for the delay', async () => {
+        const clock = new FakeClock();
+        const firstSave = givenADeferred();
+        const save = jest.fn<(target: string) => Promise<void>>().mockReturnValueOnce(firstSave.promise).mockResolvedValueOnce(undefined);
+        const autosaver = givenAnAutosaver(save, clock);
+
+        autosaver.change('first');
+        clock.advance(500);
+        autosaver.change('second');
+        firstSave.resolve();
+        await flushPromises();
+
+        expect(save).toBeCalledTimes(1);
+        expect(autosaver.state).toEqual(EditableViewState.success('initial', 'first', givenAClockAt(500)));
+        expect([clock.pendingTimers, autosaver.hasPendingChanges, autosaver.optimisticValue]).toEqual([1, true, 'second']);
+
+        clock.advance(500);
+        await flushPromises();
+
+        expect(save.mock.calls.map(([target]) => target)).toEqual(['first', 'second']);
+        expect(autosaver.state).toEqual(EditableViewState.success('first', 'second', givenAClockAt(1000)));
+    });
+
+    test('given a change waiting for the delay when flushing then it is saved immediately', async () => {
+        const clock = new FakeClock();
+        const autosaver = givenAnAutosaver(() => Promise.resolve(), clock);
+
+        autosaver.change('target');
+        const viewState = await autosaver.flush();
+
+        expect(viewState).toEqual(EditableViewState.success('initial', 'target', givenAClockAt(0)));
+        expect(clock.pendingTimers).toBe(0);
+    });
+
+    test('given no change when flushing then the current state is retrieved', async () => {
+        const clock = new FakeClock();
+        const save = jest.fn(() => Promise.resolve());
+        const autosaver = givenAnAutosaver(save, clock);
+
+        expect(await autosaver.flush()).toEqual(EditableViewState.initial('initial'));
+        expect(save).not.toBeCalled();
+    });
+
+    test('given a rejecting save when the delay elapses then the state rolls back to the current value', async () => {
+        const clock = new FakeClock();
+        const autosaver = givenAnAutosaver(() => Promise.reject('reason'), clock);
+
+        autosaver.change('target');
+        clock.advance(500);
+        await flushPromises();
+
+        expect(autosaver.state).toEqual(EditableViewState.failure('initial', 'target', Error('reason'), givenAClockAt(500)));
+        expect(autosaver.optimisticValue).toBe('initial');
+    });
+
+    test('given a throwing callback when a change is saved then the error is reported and the next changes are saved', async () => {
+        const clock = new FakeClock();
+        const error = Error('callback error');
+        const onStateChangeError = jest.fn<(error: unknown) => void>();
+        const save = jest.fn((_target: string) => Promise.resolve());
+        const autosaver = new EditableViewStateAutosaver<string>(
+            'initial',
+            save,
+            () => {
+                throw error;
+            },
+            { clock, onStateChangeError },
+        );
+
+        autosaver.change('a');
+        clock.advance(500);
+        await flushPromises();
+        autosaver.change('ab');
+        const state = await autosaver.flush();
+
+        expect(onStateChangeError.mock.calls).toEqual([[error], [error], [error], [error]]);
+        expect(save.mock.calls.map(([target]) => target)).toEqual(['a', 'ab']);
+        expect(state).toEqual(EditableViewState.success('a', 'ab', clock));
+        expect(autosaver.hasPendingChanges).toBe(false);
+    });
+
+    test('given a change waiting for the delay when cancelling then it is discarded', () => {
+        const clock = new FakeClock();
+        const save = jest.fn(() => Promise.resolve());
+        const autosaver = givenAnAutosaver(save, clock);
+
+        autosaver.change('target');
+        autosaver.cancel();
+
+        expect(clock.pendingTimers).toBe(0);
+        expect(autosaver.hasPendingChanges).toBe(false);
+        expect(autosaver.optimisticValue).toBe('initial');
+        expect(onStateChange).not.toBeCalled();
+    });
+
+    test('given a save in progress when cancelling then it is aborted and the initial state with the current value is emitted', async () => {
+        const clock = new FakeClock();
+        const deferred = givenADeferred();
+        let signal: AbortSignal | null = null;
+        const autosaver = givenAnAutosaver((_target, saveSignal) => {
+            signal = saveSignal;
+            return deferred.promise;
+        }, clock);
+
+        autosaver.change('target');
+        clock.advance(500);
+        autosaver.cancel();
+        deferred.resolve();
+        await flushPromises();
+
+        expect(signal!.aborted).toBe(true);
+        expect(emittedStates()).toEqual([EditableViewState.loading('initial', 'target', undefined, givenAClockAt(500)), EditableViewState.initial('initial')]);
+    });
+});
@@ -0,0 +1,173 @@
+import { Clock, systemClock } from './clock';
+import { EditableViewState } from './editable-view-state';
+import { toError } from './to-error';
+
+/**
+ * The options of an EditableViewStateAutosaver.
+ */
+export interface EditableViewStateAutosaverOptions {
+    /** The delay in milliseconds without changes after which the latest value is saved. Defaults to 500. */
+    readonly delay?: number;
+
+    /** The clock used to wait for the delay and to record the times of the states. Defaults to the system clock. */
+    readonly clock?: Clock;
+
+    /** The function reporting an error thrown by the callback receiving the states. Defaults to `console.error`. */
+    readonly onStateChangeError?: (error: unknown) => void;
+}
+
+/**
+ * Saves a value automatically as it changes and drives an EditableViewState through its loading, success, and failure states, emitting every state to the
+ * given callback.
+ *
+ * Changes are debounced: a value is saved only once the delay elapses without a newer change, so rapid changes are coalesced into a single save of the
+ * latest value. Saves are serialized: a value changed while a save is in progress waits for it to settle and is saved once its own delay elapses or it is
+ * flushed, so an older save never completes after a newer one. An error thrown by the callback receiving the states is reported without interrupting the
+ * save.
+ *
+ * @template Value The type of the edited value.
+ */
+export class EditableViewStateAutosaver<Value> {
+    private viewState: EditableViewState<Value>;
+    private pendingTarget: { value: Value } | null = null;
+    private cancelScheduledSave: (() => void) | null = null;
+    private runningSave: Promise<EditableViewState<Value>> | null = null;
+    private abortController: AbortController | null = null;
+    private readonly delay: number;
+    private readonly clock: Clock;
+    private readonly onStateChangeError: (error: unknown) => void;
+
+    /**
+     * Creates an autosaver in the initial state.
+     *
+     * @template Value
+     * @param {Value} initialValue - The value to be encapsulated within the initial state.
+     * @param {(Value, AbortSignal) => Promise<void>} save - The asynchronous function that saves a target value. It receives a signal that is aborted when
+     * the save is cancelled.
+     * @param {(EditableViewState<Value>) => void} onStateChange - The callback function to be executed every time the state changes.
+     * @param {EditableViewStateAutosaverOptions} options - The delay and the clock of the autosaver, and the function reporting the errors of the callback.
+     */
+    constructor(
+        initialValue: Value,
+        private readonly save: (target: Value, signal: AbortSignal) => Promise<void>,
+        private readonly onStateChange: (viewState: EditableViewState<Value>) => void,
+        options: EditableViewStateAutosaverOptions = {},
+    ) {
+        this.viewState = EditableViewState.initial(initialValue);
+        this.delay = options.delay ?? 500;
+        this.clock = options.clock ?? systemClock;
+        this.onStateChangeError = options.onStateChangeError ?? ((error: unknown) => console.error(error));
+    }
+
+    /**
+     * Returns the latest emitted state.
+     *
+     * @return {EditableViewState<Value>} The latest emitted state.
+     */
+    get state(): EditableViewState<Value> {
+        return this.viewState;
+    }
+
+    /**
+     * Returns the value to render: the latest changed value if it was not saved yet, the target value while it is being saved, otherwise the relevant value
+     * of the state.
+     *
+     * @return {Value} The value to render.
+     */
+    get optimisticValue(): Value {
+        if (this.pendingTarget !== null) return this.pendingTarget.value;
+        return this.viewState.isLoading ? (this.viewState.getTargetOrNull() as Value) : this.viewState.getRelevant();
+    }
+
+    /**
+     * Returns true if a changed value is waiting to be saved or a save is in progress.
+     *
+     * @return {boolean} True if there are changes that are not saved yet.
+     */
+    get hasPendingChanges(): boolean {
+        return this.pendingTarget !== null || this.runningSave !== null;
+    }
+
+    /**
+     * Records the given value as the latest change and schedules its save once the delay elapses without a newer change. Nothing is emitted until the save
+     * starts.
+     *
+     * @template Value
+     * @param {Value} target - The changed value.
+     */
+    change(target: Value): void {
+        this.pendingTarget = { value: target };
+        this.cancelScheduledSave?.();
+        this.cancelScheduledSave = this.clock.schedule(() => {
+            this.cancelScheduledSave = null;
+            void this.flush();
+        }, this.delay);
+    }
+
+    /**
+     * Saves the latest change now instead of waiting for the delay, such as before navigating away. If a save is in progress, the latest change is saved
+     * once it settles.
+     *
+     * @return {Promise<EditableViewState<Value>>} The state once the latest change is saved, or the latest state if the saves are cancelled.
+     */
+    flush(): Promise<EditableViewState<Value>> {
+        this.cancelScheduledSave?.();
+        this.cancelScheduledSave = null;
+        if (this.runningSave !== null) return this.runningSave.then(() => this.flush());
+        if (this.pendingTarget === null) return Promise.resolve(this.viewState);
+
+        const target = this.pendingTarget.value;
+        this.pendingTarget = null;
+        this.runningSave = this.saveTarget(target);
+        return this.runningSave;
+    }
+
+    /**
+     * Discards the change waiting to be saved, if any, and aborts the save in progress, if any, emitting the initial state with the relevant value.
+     */
+    cancel(): void {
+        this.cancelScheduledSave?.();
+        this.cancelScheduledSave = null;
+        this.pendingTarget = null;
+        if (this.runningSave === null) return;
+        this.abortController?.abort();
+        this.abortController = null;
+        this.runningSave = null;
+        this.emit(EditableViewState.initial(this.viewState.getRelevant()));
+    }
+
+    private async saveTarget(target: Value): Promise<EditableViewState<Value>> {
+        const abortController = new AbortController();
+        this.abortController = abortController;
+
+        const loadingViewState = this.viewState.startSaving(target, this.clock);
+        this.emit(loadingViewState);
+
+        let settledViewState: EditableViewState<Value>;
+        try {
+            await this.save(target, abortController.signal);
+            settledViewState = loadingViewState.succeed(this.clock);
+        } catch (error) {
+            settledViewState = loadingViewState.fail(toError(error), this.clock);
+        } finally {
+            if (this.abortController === abortController) {
+                this.abortController = null;
+                this.runningSave = null;
+            }
+        }
+
+        if (abortController.signal.aborted) return this.viewState;
+
+        this.emit(settledViewState);
+        return settledViewState;
+    }
+
+    private emit(viewState: EditableViewState<Value>) {
+        this.viewState = viewState;
+        try {
+            this.onStateChange(viewState);
+        } catch (error) {
+            this.onStateChangeError(error);
+        }
+    }
+}
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { EditableViewState } from './editable-view-state';
+import { EditableViewStateController } from './editable-view-state-controller';
+import { FakeClock } from './test-support/fake-clock';
+
+describe('EditableViewStateController', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const givenADeferred = () => {
+        let resolve: () => void = () => {};
+        let reject: (reason: unknown) => void = () => {};
+        const promise = new Promise<void>((promiseResolve, promiseReject) => {
+            resolve = promiseResolve;
+            reject = promiseReject;
+        });
+        return { promise, resolve, reject };
+    };
+
+    const clock = new FakeClock(1000);
+    const onStateChange = jest.fn<(viewState: EditableViewState<string>) => void>();
+
+    const givenAController = (save: (target: string, signal: AbortSignal) => Promise<void>) =>
+        new EditableViewStateController<string>('initial', save, onStateChange, { clock });
+
+    test('given a new controller when getting the state then the initial state is retrieved', () => {
+        const controller = givenAController(() => Promise.resolve());
+        expect(controller.state).toEqual(EditableViewState.initial('initial'));
+        expect(controller.optimisticValue).toBe('initial');
+    });
+
+    test('given a save in progress when getting the optimistic value then the target value is retrieved', () => {
+        const controller = givenAController(() => givenADeferred().promise);
+
+        void controller.commit('target');
+
+        expect(controller.state).toEqual(EditableViewState.loading('initial', 'target', undefined, clock));
+        expect(controller.optimisticValue).toBe('target');
+        expect(controller.isRunning).toBeTruthy();
+    });
+
+    test('given a resolving save when committing then the success state is emitted', async () => {
+        const controller = givenAController(() => Promise.resolve());
+
+        const viewState = await controller.commit('target');
+
+        expect(viewState).toEqual(EditableViewState.success('initial', 'target', clock));
+        expect(onStateChange.mock.calls.map(([viewState]) => viewState)).toEqual([
+            EditableViewState.loading('initial', 'target', undefined, clock),
+            EditableViewState.success('initial', 'target', clock),
+        ]);
+    });
+
+    test('given a rejecting save when committing then the state rolls back to the current value', async () => {
+        const controller = givenAController(() => Promise.reject('reason'));
+
+        const viewState = await controller.commit('target');
+
+        expect(viewState).toEqual(EditableViewState.failure('initial', 'target', Error('reason'), clock));
+        expect(controller.optimisticValue).toBe('initial');
+    });
+
+    test('given a saved value when committing again then the loading and the failure states keep the time it was saved', async () => {
+        const save = jest.fn<(target: string) => Promise<void>>().mockResolvedValueOnce(undefined).mockRejectedValueOnce(Error('reason'));
+        const controller = givenAController(save);
+        await controller.commit('saved');
+
+        const viewState = await controller.commit('target');
+
+        expect(onStateChange.mock.calls.map(([emittedViewState]) => emittedViewState.loadedAt)).toEqual([null, 1000, 1000, 1000]);
+        expect(viewState.isStale(1000, 1500)).toBe(false);
+    });
+
+    test('given a failure state when retrying then the failed value is saved again', async () => {
+        const save = jest.fn<(target: string) => Promise<void>>().mockRejectedValueOnce(Error('error')).mockResolvedValueOnce();
+        const controller = givenAController(save);
+        await controller.commit('target');
+
+        const viewState = await controller.retry();
+
+        expect(save).toHaveBeenLastCalledWith('target', expect.anything());
+        expect(viewState).toEqual(EditableViewState.success('initial', 'target', clock));
+    });
+
+    test('given a non failure state when retrying then nothing is saved', async () => {
+        const save = jest.fn<() => Promise<void>>();
+        const controller = givenAController(save);
+
+        const viewState = await controller.retry();
+
+        expect(viewState).toEqual(EditableViewState.initial('initial'));
+        expect(save).not.toBeCalled();
+    });
+
+    test('given a save in progress when committing again then the newer commit supersedes it', async () => {
+        const first = givenADeferred();
+        const second = givenADeferred();
+        const save = jest.fn<(target: string, signal: AbortSignal) => Promise<void>>().mockReturnValueOnce(first.promise).mockReturnValueOnce(second.promise);
+        const controller = givenAController(save);
+
+        const firstCommit = controller.commit('first');
+        const secondCommit = controller.commit('second');
+        first.reject(Error('error'));
+        second.resolve();
+        await Promise.all([firstCommit, secondCommit]);
+
+        expect(save.mock.calls[0]?.[1].aborted).toBeTruthy();
+        expect(controller.state).toEqual(EditableViewState.success('initial', 'second', clock));
+    });
+
+    test('given a save in progress when resetting then the initial state with the current value is emitted', async () => {
+        const deferred = givenADeferred();
+        const controller = givenAController(() => deferred.promise);
+
+        const commit = controller.commit('target');
+        controller.reset();
+        deferred.resolve();
+        await commit;
+
+        expect(controller.state).toEqual(EditableViewState.initial('initial'));
+        expect(controller.isRunning).toBeFalsy();
+    });
+
+    describe('validation', () => {
+        const issues = [{ message: 'required' }];
+        const required = (value: string) => Promise.resolve(value.length === 0 ? issues : []);
+
+        const givenAValidatingController = (save: (target: string, signal: AbortSignal) => Promise<void>) =>
+            new EditableViewStateController<string>('initial', save, onStateChange, { validators: [required], clock });
+
+        test('given a target value rejected by the validators when committing then an invalid state is emitted and nothing is saved', async () => {
+            const save = jest.fn(() => Promise.resolve());
+            const controller = givenAValidatingController(save);
+
+            const viewState = await controller.commit('');
+
+            expect(viewState).toEqual(EditableViewState.invalid('initial', '', issues));
+            expect(save).not.toBeCalled();
+            expect(controller.isRunning).toBeFalsy();
+            expect(controller.optimisticValue).toBe('initial');
+        });
+
+        test('given a valid target value when committing then it is saved', async () => {
+            const controller = givenAValidatingController(() => Promise.resolve());
+
+            const viewState = await controller.commit('target');
+
+            expect(viewState).toEqual(EditableViewState.success('initial', 'target', clock));
+            expect(onStateChange.mock.calls.map(([viewState]) => viewState)).toEqual([
+                EditableViewState.loading('initial', 'target', undefined, clock),
+                EditableViewState.success('initial', 'target', clock),
+            ]);
+        });
+
+        test('given a rejecting validator when committing then a failure state is emitted and nothing is saved', async () => {
+            const save = jest.fn(() => Promise.resolve());
+            const error = Error('unreachable');
+            const controller = new EditableViewStateController<string>('initial', save, onStateChange, { validators: [() => Promise.reject(error)], clock });
+
+            const viewState = await controller.commit('target');
+
+            expect(viewState).toEqual(EditableViewState.failure('initial', 'target', error, clock));
+            expect(onStateChange.mock.calls.map(([viewState]) => viewState)).toEqual([EditableViewState.failure('initial', 'target', error, clock)]);
+            expect(save).not.toBeCalled();
+            expect(controller.isRunning).toBeFalsy();
+        });
+    });
+});
@@ -0,0 +1,158 @@
+import { Clock, systemClock } from './clock';
+import { EditableViewState } from './editable-view-state';
+import { toError } from './to-error';
+import { AsyncValidator, validateAsync, ValidationIssue, Validator } from './validation';
+
+/**
+ * The options of an EditableViewStateController.
+ *
+ * @template Value The type of the edited value.
+ */
+export interface EditableViewStateControllerOptions<Value> {
+    /** The validators a target value must pass before it is saved. Defaults to none. */
+    readonly validators?: readonly (Validator<Value> | AsyncValidator<Value>)[];
+
+    /** The clock used to record the times of the states. Defaults to the system clock. */
+    readonly clock?: Clock;
+}
+
+/**
+ * Runs optimistic edits of a value and drives an EditableViewState through its initial, loading, success, and failure states, emitting every state to the
+ * given callback.
+ *
+ * While a target value is being saved, it is exposed as the optimistic value to render. If the save fails, the state rolls back to the current value and
+ * keeps the failed one so it can be retried. Every call to `commit` aborts the save in progress, so only the latest commit can settle the state. A target
+ * value rejected by the validators is not saved, and an invalid state is emitted instead.
+ *
+ * @template Value The type of the edited value.
+ */
+export class EditableViewStateController<Value> {
+    private viewState: EditableViewState<Value>;
+    private abortController: AbortController | null = null;
+    private readonly validators: readonly (Validator<Value> | AsyncValidator<Value>)[];
+    private readonly clock: Clock;
+
+    /**
+     * Creates a controller in the initial state.
+     *
+     * @template Value
+     * @param {Value} initialValue - The value to be encapsulated within the initial state.
+     * @param {(Value, AbortSignal) => Promise<void>} save - The asynchronous function that saves a target value. It receives a signal that is aborted when
+     * the save is superseded or cancelled.
+     * @param {(EditableViewState<Value>) => void} onStateChange - The callback function to be executed every time the state changes.
+     * @param {EditableViewStateControllerOptions<Value>} options - The validators and the clock of the controller.
+     */
+    constructor(
+        initialValue: Value,
+        private readonly save: (target: Value, signal: AbortSignal) => Promise<void>,
+        private readonly onStateChange: (viewState: EditableViewState<Value>) => void,
+        options: EditableViewStateControllerOptions<Value> = {},
+    ) {
+        this.viewState = EditableViewState.initial(initialValue);
+        this.validators = options.validators ?? [];
+        this.clock = options.clock ?? systemClock;
+    }
+
+    /**
+     * Returns the latest emitted state.
+     *
+     * @return {EditableViewState<Value>} The latest emitted state.
+     */
+    get state(): EditableViewState<Value> {
+        return this.viewState;
+    }
+
+    /**
+     * Returns the value to render: the target value while it is being saved, otherwise the relevant value of the state.
+     *
+     * @return {Value} The value to render.
+     */
+    get optimisticValue(): Value {
+        return this.viewState.isLoading ? (this.viewState.getTargetOrNull() as Value) : this.viewState.getRelevant();
+    }
+
+    /**
+     * Returns true if a save is in progress.
+     *
+     * @return {boolean} True if a save is in progress.
+     */
+    get isRunning(): boolean {
+        return this.abortController !== null;
+    }
+
+    /**
+     * Aborts the save in progress, if any, and saves the given target value. Emits a loading state and then a success state, or a failure state that rolls
+     * back to the current value, unless the save is superseded or cancelled before it settles.
+     *
+     * If there are validators, the target value is validated first, and an invalid state is emitted instead of saving it if any validator reports an issue.
+     * A validator that throws or rejects emits a failure state without saving.
+     *
+     * @template Value
+     * @param {Value} target - The value to save.
+     * @return {Promise<EditableViewState<Value>>} The state after the save settles, or the latest state if the save was superseded or cancelled.
+     */
+    async commit(target: Value): Promise<EditableViewState<Value>> {
+        this.abortController?.abort();
+        const abortController = new AbortController();
+        this.abortController = abortController;
+
+        let issues: ValidationIssue[] = [];
+        try {
+            if (this.validators.length > 0) issues = await validateAsync(target, this.validators);
+        } catch (error) {
+            return this.settle(abortController, this.startSaving(target).fail(toError(error), this.clock));
+        }
+        if (abortController.signal.aborted) return this.viewState;
+        if (issues.length > 0) return this.settle(abortController, EditableViewState.invalid(this.viewState.getRelevant(), target, issues));
+
+        const loadingViewState = this.startSaving(target);
+        this.emit(loadingViewState);
+
+        let settledViewState: EditableViewState<Value>;
+        try {
+            await this.save(target, abortController.signal);
+            settledViewState = loadingViewState.succeed(this.clock);
+        } catch (error) {
+            settledViewState = loadingViewState.fail(toError(error), this.clock);
+        }
+        return this.settle(abortController, settledViewState);
+    }
+
+    /**
+     * Saves the failed value again if the state is a failure, otherwise does nothing.
+     *
+     * @return {Promise<EditableViewState<Value>>} The state after the save settles, or the current state if the state is not failure.
+     */
+    retry(): Promise<EditableViewState<Value>> {
+        return this.viewState.match({
+            onFailure: (_current, failed) => this.commit(failed),
+            otherwise: () => Promise.resolve(this.viewState),
+        });
+    }
+
+    /**
+     * Aborts the save in progress, if any, and emits the initial state with the relevant value.
+     */
+    reset(): void {
+        this.abortController?.abort();
+        this.abortController = null;
+        this.emit(EditableViewState.initial(this.viewState.getRelevant()));
+    }
+
+    private startSaving(target: Value): EditableViewState<Value> {
+        return this.viewState.tryStartSaving(target, this.clock) ?? this.viewState.reset().startSaving(target, this.clock);
+    }
+
+    private settle(abortController: AbortController, settledViewState: EditableViewState<Value>): EditableViewState<Value> {
+        if (abortController.signal.aborted) return this.viewState;
+
+        this.abortController = null;
+        this.emit(settledViewState);
+        return settledViewState;
+    }
+
+    private emit(viewState: EditableViewState<Value>) {
+        this.viewState = viewState;
+        this.onStateChange(viewState);
+    }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from '@jest/globals';
+import { EditableViewState } from './editable-view-state';
+import { EditableViewStateHistory } from './editable-view-state-history';
+import { IllegalTransitionError } from './illegal-transition-error';
+
+describe('EditableViewStateHistory', () => {
+    const error = Error('error');
+
+    const givenAnInitialHistory = () => EditableViewStateHistory.initial('A');
+    const givenASavedHistory = () => givenAnInitialHistory().save('B').succeed().save('C').succeed();
+    const givenAnUndoneHistory = () => givenASavedHistory().undo().succeed();
+
+    describe('initial', () => {
+        test('given an initial value when creating a history then nothing can be undone or redone', () => {
+            const history = givenAnInitialHistory();
+
+            expect(history.state).toEqual(EditableViewState.initial('A'));
+            expect([history.canUndo, history.canRedo]).toEqual([false, false]);
+            expect(history.undo()).toBe(history);
+            expect(history.redo()).toBe(history);
+        });
+    });
+
+    describe('save', () => {
+        test('given an initial history when saving a value then it is loading and the history is unchanged until the save succeeds', () => {
+            const history = givenAnInitialHistory().save('B');
+
+            expect(history.state).toEqual(EditableViewState.loading('A', 'B'));
+            expect(history.canUndo).toBe(false);
+            expect(history.succeed().state).toEqual(EditableViewState.success('A', 'B'));
+            expect(history.succeed().canUndo).toBe(true);
+        });
+
+        test('given an undone history when saving a new value then the undone value cannot be redone anymore', () => {
+            const history = givenAnUndoneHistory().save('D').succeed();
+
+            expect(history.canRedo).toBe(false);
+            expect(history.toString()).toBe('Success: B -> D (2 undo, 0 redo)');
+        });
+
+        test('given a save in progress when saving another value then an IllegalTransitionError is thrown', () => {
+            expect(() => givenAnInitialHistory().save('B').save('C')).toThrow(IllegalTransitionError);
+        });
+    });
+
+    describe('undo', () => {
+        test('given a saved history when undoing then the previous value is saved and can be redone once the save succeeds', () => {
+            const undoing = givenASavedHistory().undo();
+
+            expect(undoing.state).toEqual(EditableViewState.loading('C', 'B'));
+            expect([undoing.canUndo, undoing.canRedo]).toEqual([false, false]);
+
+            const undone = undoing.succeed();
+
+            expect(undone.state).toEqual(EditableViewState.success('C', 'B'));
+            expect([undone.canUndo, undone.canRedo]).toEqual([true, true]);
+        });
+
+        test('given a saved history when undoing every value then the initial value is saved back', () => {
+            const history = givenASavedHistory().undo().succeed().undo().succeed();
+
+            expect(history.state.getRelevant()).toBe('A');
+            expect(history.canUndo).toBe(false);
+            expect(history.toString()).toBe('Success: B -> A (0 undo, 2 redo)');
+        });
+
+        test('given a failed undo when reading the history then it is unchanged and the undo can be retried', () => {
+            const failed = givenASavedHistory().undo().fail(error);
+
+            expect(failed.state).toEqual(EditableViewState.failure('C', 'B', error));
+            expect([failed.canUndo, failed.canRedo]).toEqual([true, false]);
+
+            const retried = failed.retry().succeed();
+
+            expect(retried.state).toEqual(EditableViewState.success('C', 'B'));
+            expect(retried.toString()).toBe('Success: C -> B (1 undo, 1 redo)');
+        });
+
+        test('given a failed undo when resetting then the history is unchanged and the relevant value is kept', () => {
+            const history = givenASavedHistory().undo().fail(error).reset();
+
+            expect(history.state).toEqual(EditableViewState.initial('C'));
+            expect(history.toString()).toBe('Initial: C (2 undo, 0 redo)');
+        });
+    });
+
+    describe('redo', () => {
+        test('given an undone history when redoing then the undone value is saved back and can be undone again', () => {
+            const history = givenAnUndoneHistory().redo().succeed();
+
+            expect(history.state).toEqual(EditableViewState.success('B', 'C'));
+            expect([history.canUndo, history.canRedo]).toEqual([true, false]);
+            expect(history.toString()).toBe('Success: B -> C (2 undo, 0 redo)');
+        });
+
+        test('given a failed redo when retrying it then the history moves once the save succeeds', () => {
+            const failed = givenAnUndoneHistory().redo().fail(error);
+
+            expect(failed.toString()).toBe('Failure: B -> C (1 undo, 1 redo)');
+            expect(failed.retry().succeed().toString()).toBe('Success: B -> C (2 undo, 0 redo)');
+        });
+    });
+
+    describe('limit', () => {
+        test('given a limit when saving more values than it then the oldest ones are forgotten', () => {
+            const history = EditableViewStateHistory.initial('A', { limit: 2 }).save('B').succeed().save('C').succeed().save('D').succeed();
+
+            expect(history.toString()).toBe('Success: C -> D (2 undo, 0 redo)');
+            expect(history.undo().succeed().undo().succeed().state.getRelevant()).toBe('B');
+            expect(history.undo().succeed().undo().succeed().canUndo).toBe(false);
+        });
+    });
+
+    describe('succeed, fail', () => {
+        test.each([
+            ['succeed', (history: EditableViewStateHistory<string>) => history.succeed()],
+            ['fail', (history: EditableViewStateHistory<string>) => history.fail(error)],
+        ])('given no save in progress when calling %p then an IllegalTransitionError is thrown', (_name, whenSettling) => {
+            expect(() => whenSettling(givenASavedHistory())).toThrow(IllegalTransitionError);
+        });
+    });
+});
@@ -0,0 +1,166 @@
+import { EditableViewState } from './editable-view-state';
+
+/**
+ * The options of an EditableViewStateHistory.
+ */
+export interface EditableViewStateHistoryOptions {
+    /** The maximum number of saved values that can be undone. The oldest ones are forgotten first. Defaults to 50. */
+    readonly limit?: number;
+}
+
+type EditableViewStateHistoryChange = 'save' | 'undo' | 'redo';
+
+/**
+ * Represents an EditableViewState together with the history of its saved values, so successful saves can be undone and redone.
+ *
+ * An undo or a redo is a save of the previous or the next value, going through the loading, success, and failure states like any other save. The history
+ * only moves once that save succeeds, so a failed undo or redo leaves it unchanged and can be retried.
+ *
+ * @template Value The type of the edited value.
+ * @template ErrorValue The type of the error.
+ */
+export class EditableViewStateHistory<Value, ErrorValue = Error> {
+    private constructor(
+        public readonly state: EditableViewState<Value, ErrorValue>,
+        private readonly past: readonly Value[],
+        private readonly future: readonly Value[],
+        private readonly limit: number,
+        private readonly change: EditableViewStateHistoryChange | null,
+    ) {}
+
+    /**
+     * Returns an instance in the initial state with the given value and an empty history.
+     *
+     * @template Value, ErrorValue
+     * @param {Value} value - The value to be encapsulated within the initial state.
+     * @param {EditableViewStateHistoryOptions} options - The limit of the history.
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory in the initial state.
+     */
+    static initial<Value, ErrorValue = Error>(value: Value, options: EditableViewStateHistoryOptions = {}): EditableViewStateHistory<Value, ErrorValue> {
+        return new EditableViewStateHistory(EditableViewState.initial<Value, ErrorValue>(value), [], [], options.limit ?? 50, null);
+    }
+
+    /**
+     * Returns true if a saved value can be undone: the history has a previous value and no save is in progress.
+     *
+     * @return {boolean} True if undo is available.
+     */
+    get canUndo(): boolean {
+        return this.past.length > 0 && !this.state.isLoading;
+    }
+
+    /**
+     * Returns true if an undone value can be redone: the history has a next value and no save is in progress.
+     *
+     * @return {boolean} True if redo is available.
+     */
+    get canRedo(): boolean {
+        return this.future.length > 0 && !this.state.isLoading;
+    }
+
+    /**
+     * Returns a history saving the given target value. Once the save succeeds, the replaced value can be undone and the undone values cannot be redone
+     * anymore.
+     *
+     * @template Value
+     * @param {Value} target - The value to save.
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory with a loading state.
+     * @throws {IllegalTransitionError} If a save is in progress.
+     */
+    save(target: Value): EditableViewStateHistory<Value, ErrorValue> {
+        return this.transition(this.state.startSaving(target), 'save');
+    }
+
+    /**
+     * Returns a history saving the previous value. Returns this history unchanged if there is nothing to undo.
+     *
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory with a loading state, or the current history.
+     * @throws {IllegalTransitionError} If a save is in progress.
+     */
+    undo(): EditableViewStateHistory<Value, ErrorValue> {
+        if (this.past.length === 0) return this;
+        return this.transition(this.state.startSaving(this.past[this.past.length - 1] as Value), 'undo');
+    }
+
+    /**
+     * Returns a history saving the next value. Returns this history unchanged if there is nothing to redo.
+     *
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory with a loading state, or the current history.
+     * @throws {IllegalTransitionError} If a save is in progress.
+     */
+    redo(): EditableViewStateHistory<Value, ErrorValue> {
+        if (this.future.length === 0) return this;
+        return this.transition(this.state.startSaving(this.future[this.future.length - 1] as Value), 'redo');
+    }
+
+    /**
+     * Returns a history where the save in progress succeeded, moving the history according to the save, undo, or redo that started it.
+     *
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory with a success state.
+     * @throws {IllegalTransitionError} If no save is in progress.
+     */
+    succeed(): EditableViewStateHistory<Value, ErrorValue> {
+        const replaced = this.state.getRelevant();
+        const succeeded = this.state.succeed();
+
+        switch (this.change) {
+            case 'undo':
+                return new EditableViewStateHistory(succeeded, this.past.slice(0, -1), this.future.concat([replaced]), this.limit, null);
+            case 'redo':
+                return new EditableViewStateHistory(succeeded, this.recorded(replaced), this.future.slice(0, -1), this.limit, null);
+            default:
+                return new EditableViewStateHistory(succeeded, this.recorded(replaced), [], this.limit, null);
+        }
+    }
+
+    /**
+     * Returns a history where the save in progress failed with the given error. The history is unchanged, so the save, undo, or redo can be retried.
+     *
+     * @param {ErrorValue} error - The error the save failed with.
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory with a failure state.
+     * @throws {IllegalTransitionError} If no save is in progress.
+     */
+    fail(error: ErrorValue): EditableViewStateHistory<Value, ErrorValue> {
+        return this.transition(this.state.fail(error), this.change);
+    }
+
+    /**
+     * Returns a history saving the failed value again, keeping track of the save, undo, or redo that failed.
+     *
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory with a loading state.
+     * @throws {IllegalTransitionError} If the state is not a failure.
+     */
+    retry(): EditableViewStateHistory<Value, ErrorValue> {
+        return this.transition(this.state.retry(), this.change);
+    }
+
+    /**
+     * Returns a history in the initial state with the relevant value, discarding the save in progress or failed, if any. The history is unchanged.
+     *
+     * @return {EditableViewStateHistory<Value, ErrorValue>} A new instance of EditableViewStateHistory with an initial state.
+     */
+    reset(): EditableViewStateHistory<Value, ErrorValue> {
+        return this.transition(this.state.reset(), null);
+    }
+
+    /**
+     * Converts the current history into a string representation.
+     *
+     * @return {string} A string describing the state and the number of values that can be undone and redone.
+     */
+    toString(): string {
+        return `${this.state.toString()} (${this.past.length} undo, ${this.future.length} redo)`;
+    }
+
+    private transition(
+        state: EditableViewState<Value, ErrorValue>,
+        change: EditableViewStateHistoryChange | null,
+    ): EditableViewStateHistory<Value, ErrorValue> {
+        return new EditableViewStateHistory(state, this.past, this.future, this.limit, change);
+    }
+
+    private recorded(value: Value): readonly Value[] {
+        const past = this.past.concat([value]);
+        return past.slice(Math.max(0, past.length - this.limit));
+    }
+}
@@ -1,5 +1,9 @@
 import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Clock } from './clock';
 import { EditableViewState } from './editable-view-state';
+import { IllegalTransitionError } from './illegal-transition-error';
+import { LoadableViewState } from './loadable-view-state';
+import { LoadingProgress } from './loading-progress';
 import Mock = jest.Mock;
 
 describe('EditableViewState', () => {
@@ -204,7 +208,11 @@ describe('EditableViewState', () => {
             .fn<(current: string, target: string) => string>()
             .mockImplementation((current, target) => `transformed (${current}, ${target})`);
 
-        const allTransforms = [onSuccessTransform, onFailureTransform, onInitialTransform, onLoadingTransform];
+        const onInvalidTransform = jest
+            .fn<(current: string, candidate: string) => string>()
+            .mockImplementation((current, candidate) => `invalid (${current}, ${candidate})`);
+
+        const allTransforms = [onSuccessTransform, onFailureTransform, onInitialTransform, onLoadingTransform, onInvalidTransform];
 
         const givenAllViewStates = (): [
             EditableViewState<string>,
@@ -242,7 +250,7 @@ describe('EditableViewState', () => {
 
         describe('fold by using individual handlers', () => {
             const whenFolding = (viewState: EditableViewState<string>) =>
-                viewState.fold(onSuccessTransform, onFailureTransform, onInitialTransform, onLoadingTransform);
+                viewState.fold(onSuccessTransform, onFailureTransform, onInitialTransform, onLoadingTransform, onInvalidTransform);
 
             test.each(givenAllViewStates())('given %p when folding then the transformation is applied', (viewState, transform, transformedValue) => {
                 const mappedValue = whenFolding(viewState);
@@ -260,6 +268,7 @@ describe('EditableViewState', () => {
                     onFailure: onFailureTransform,
                     onInitial: onInitialTransform,
                     onLoading: onLoadingTransform,
+                    onInvalid: onInvalidTransform,
                 });
 
             test.each(givenAllViewStates())('given %p when folding then the view state is returned', (viewState, transform, transformedValue) => {
@@ -284,4 +293,660 @@ describe('EditableViewState', () => {
             expect(viewState.toString()).toBe(expectedString);
         });
     });
+
+    describe('toJSON and fromJSON', () => {
+        const givenAllViewStates = (): EditableViewState<string>[] => [
+            givenAnInitialViewState(),
+            givenALoadingViewState(),
+            givenASuccessViewState(),
+            givenAFailureViewState(),
+        ];
+
+        test.each(givenAllViewStates())('given %p when stringifying and restoring then an equal view state is retrieved', (viewState) => {
+            const restoredViewState = EditableViewState.fromJSON<string>(JSON.stringify(viewState));
+            expect(restoredViewState).toEqual(viewState);
+        });
+
+        test('given a failure view state when converting to json then the values and the error are serialized', () => {
+            expect(givenAFailureViewState().toJSON()).toEqual({
+                version: 1,
+                type: 'failure',
+                current: failureCurrentValue,
+                failed: failureFailedValue,
+                error: { name: 'Error', message: 'error' },
+            });
+        });
+
+        test('given a replacer and a reviver when converting then every value is converted both ways', () => {
+            const json = EditableViewState.loading(new Date(0), new Date(1)).toJSON((value) => value.getTime());
+
+            const restoredViewState = EditableViewState.fromJSON(json, (value) => new Date(value as number));
+
+            expect(json).toEqual({ version: 1, type: 'loading', current: 0, target: 1 });
+            expect(restoredViewState).toEqual(EditableViewState.loading(new Date(0), new Date(1)));
+        });
+
+        test.each([[{ version: 2, type: 'initial', value: 'value' }], [{ version: 1, type: 'unknown' }], ['not json']])(
+            'given %p when restoring then an error is thrown',
+            (json) => {
+                expect(() => EditableViewState.fromJSON(json)).toThrow();
+            },
+        );
+    });
+
+    describe('getTargetOrNull', () => {
+        test('given a loading view state when getting the target then the target value is retrieved', () => {
+            expect(givenALoadingViewState().getTargetOrNull()).toBe(loadingTargetValue);
+        });
+
+        test.each(givenNonLoadingViewStates())('given %p when getting the target then null is retrieved', (viewState) => {
+            expect(viewState.getTargetOrNull()).toBeNull();
+        });
+    });
+
+    describe('getOldOrNull', () => {
+        test('given a success view state when getting the old value then the old value is retrieved', () => {
+            expect(givenASuccessViewState().getOldOrNull()).toBe(successOldValue);
+        });
+
+        test.each(givenNonSuccessViewStates())('given %p when getting the old value then null is retrieved', (viewState) => {
+            expect(viewState.getOldOrNull()).toBeNull();
+        });
+    });
+
+    describe('getPendingOrNull', () => {
+        const givenViewStates = (): [EditableViewState<string>, string | null][] => [
+            [givenAnInitialViewState(), null],
+            [givenALoadingViewState(), loadingTargetValue],
+            [givenASuccessViewState(), null],
+            [givenAFailureViewState(), failureFailedValue],
+        ];
+
+        test.each(givenViewStates())('given %p when getting the pending value then %p is retrieved', (viewState, expectedValue) => {
+            expect(viewState.getPendingOrNull()).toBe(expectedValue);
+        });
+    });
+
+    describe('map', () => {
+        const transform = (value: string) => value.length;
+
+        const givenViewStates = (): [EditableViewState<string>, EditableViewState<number>][] => [
+            [givenAnInitialViewState(), EditableViewState.initial(7)],
+            [givenALoadingViewState(), EditableViewState.loading(7, 6)],
+            [givenASuccessViewState(), EditableViewState.success(3, 9)],
+            [givenAFailureViewState(), EditableViewState.failure(7, 6, error)],
+        ];
+
+        test.each(givenViewStates())('given %p when mapping then every value is transformed', (viewState, expectedViewState) => {
+            expect(viewState.map(transform)).toEqual(expectedViewState);
+        });
+    });
+
+    describe('mapError', () => {
+        test('given a failure view state when mapping the error then the transformation is applied', () => {
+            const mappedError = Error('mapped');
+            expect(givenAFailureViewState().mapError(() => mappedError)).toEqual(
+                EditableViewState.failure(failureCurrentValue, failureFailedValue, mappedError),
+            );
+        });
+
+        test.each(givenNonFailureViewStates())('given %p when mapping the error then the state is returned', (viewState) => {
+            expect(viewState.mapError(() => Error('mapped'))).toBe(viewState);
+        });
+    });
+
+    describe('bimap', () => {
+        test('given a failure view state when bimapping then the values and the error are transformed', () => {
+            const mappedError = Error('mapped');
+            expect(
+                givenAFailureViewState().bimap(
+                    (value) => value.toUpperCase(),
+                    () => mappedError,
+                ),
+            ).toEqual(EditableViewState.failure('CURRENT', 'FAILED', mappedError));
+        });
+    });
+
+    describe('progress', () => {
+        const progress = LoadingProgress.fromFraction(0.25);
+        const givenALoadingViewStateWithProgress = () => EditableViewState.loading(loadingCurrentValue, loadingTargetValue, progress);
+
+        test('given a loading view state with progress when getting the progress then the progress is retrieved', () => {
+            expect(givenALoadingViewStateWithProgress().progressOrNull()).toBe(progress);
+        });
+
+        test.each([...givenNonLoadingViewStates(), givenALoadingViewState()])('given %p when getting the progress then null is retrieved', (viewState) => {
+            expect(viewState.progressOrNull()).toBeNull();
+        });
+
+        test('given a loading view state with progress when handling onLoading then the values and the progress are passed', () => {
+            const perform = jest.fn<(current: string, target: string, progress: LoadingProgress | null) => void>();
+            givenALoadingViewStateWithProgress().onLoading(perform);
+            expect(perform).toBeCalledWith(loadingCurrentValue, loadingTargetValue, progress);
+        });
+
+        test('given a loading view state with progress when mapping then the progress is kept', () => {
+            const mappedViewState = givenALoadingViewStateWithProgress().map((value) => value.length);
+            expect(mappedViewState).toEqual(EditableViewState.loading(loadingCurrentValue.length, loadingTargetValue.length, progress));
+        });
+
+        test('given a loading view state with progress when converting to string then the progress is included', () => {
+            expect(givenALoadingViewStateWithProgress().toString()).toBe(`Loading: ${loadingCurrentValue} -> ${loadingTargetValue} (25%)`);
+        });
+
+        test('given a loading view state with progress when stringifying and restoring then an equal view state is retrieved', () => {
+            const viewState = givenALoadingViewStateWithProgress();
+            expect(EditableViewState.fromJSON<string>(JSON.stringify(viewState))).toEqual(viewState);
+        });
+    });
+
+    describe('typed error', () => {
+        interface ValidationError {
+            readonly field: string;
+        }
+
+        const validationError: ValidationError = { field: 'name' };
+        const givenATypedFailureViewState = () => EditableViewState.failure<string, ValidationError>(failureCurrentValue, failureFailedValue, validationError);
+
+        test('given a failure view state with a typed error when getting the error then the typed error is retrieved', () => {
+            const error: ValidationError | null = givenATypedFailureViewState().errorOrNull();
+            expect(error?.field).toBe('name');
+        });
+
+        test('given a failure view state with a typed error when handling onFailure then the typed error is passed', () => {
+            const perform = jest.fn<(current: string, failed: string, error: ValidationError) => void>();
+            givenATypedFailureViewState().onFailure(perform);
+            expect(perform).toBeCalledWith(failureCurrentValue, failureFailedValue, validationError);
+        });
+
+        test('given a failure view state when mapping the error into another type then the converted error is retrieved', () => {
+            const viewState = givenAFailureViewState().mapError<ValidationError>(() => validationError);
+            expect(viewState).toEqual(givenATypedFailureViewState());
+        });
+
+        test('given a failure view state with a typed error when bimapping then the values and the error are converted', () => {
+            const viewState = givenATypedFailureViewState().bimap(
+                (value) => value.length,
+                (error) => Error(error.field),
+            );
+            expect(viewState).toEqual(EditableViewState.failure(failureCurrentValue.length, failureFailedValue.length, Error('name')));
+        });
+
+        test('given a failure view state with a typed error when converting with error converters then an equal view state is restored', () => {
+            const json = JSON.stringify(givenATypedFailureViewState().toJSON(undefined, (error) => error.field));
+
+            const restoredViewState = EditableViewState.fromJSON<string, ValidationError>(json, undefined, (errorJSON) => ({ field: errorJSON as string }));
+
+            expect(restoredViewState).toEqual(givenATypedFailureViewState());
+        });
+    });
+
+    describe('status', () => {
+        test.each([
+            [givenAnInitialViewState(), 'initial'],
+            [givenALoadingViewState(), 'loading'],
+            [givenASuccessViewState(), 'success'],
+            [givenAFailureViewState(), 'failure'],
+        ])('given %p when getting the status then %p is retrieved', (viewState, expectedStatus) => {
+            expect(viewState.status).toBe(expectedStatus);
+        });
+    });
+
+    describe('match', () => {
+        const whenMatchingFailureOnly = (viewState: EditableViewState<string>) =>
+            viewState.match({
+                onFailure: (_current, failed, error) => `${failed}: ${error.message}`,
+                otherwise: () => 'otherwise',
+            });
+
+        test('given a failure view state when matching then the failure handler is called', () => {
+            expect(whenMatchingFailureOnly(givenAFailureViewState())).toBe(`${failureFailedValue}: error`);
+        });
+
+        test.each(givenNonFailureViewStates())('given %p when matching without a handler for it then otherwise is called', (viewState) => {
+            expect(whenMatchingFailureOnly(viewState)).toBe('otherwise');
+        });
+    });
+
+    describe('toUnion', () => {
+        test.each([
+            [givenAnInitialViewState(), { status: 'initial', value: initialValue }],
+            [givenALoadingViewState(), { status: 'loading', current: loadingCurrentValue, target: loadingTargetValue, progress: null }],
+            [givenASuccessViewState(), { status: 'success', old: successOldValue, succeeded: successSucceededValue }],
+            [givenAFailureViewState(), { status: 'failure', current: failureCurrentValue, failed: failureFailedValue, error }],
+        ])('given %p when converting to a union then %p is retrieved', (viewState, expectedUnion) => {
+            expect(viewState.toUnion()).toEqual(expectedUnion);
+        });
+
+        test('given a union when switching on its status then it is narrowed', () => {
+            const union = givenALoadingViewState().toUnion();
+            switch (union.status) {
+                case 'loading':
+                    expect(`${union.current} -> ${union.target}`).toBe(`${loadingCurrentValue} -> ${loadingTargetValue}`);
+                    break;
+                default:
+                    throw new Error('unexpected status');
+            }
+        });
+    });
+
+    describe('type guards', () => {
+        test.each([
+            [givenAnInitialViewState(), [true, false, false, false]],
+            [givenALoadingViewState(), [false, true, false, false]],
+            [givenASuccessViewState(), [false, false, true, false]],
+            [givenAFailureViewState(), [false, false, false, true]],
+        ])('given %p when guarding its state then %p is retrieved', (viewState, expectedGuards) => {
+            expect([viewState.isInitialState(), viewState.isLoadingState(), viewState.isSuccessState(), viewState.isFailureState()]).toEqual(expectedGuards);
+        });
+
+        test('given an initial view state when it is narrowed then its value can be read', () => {
+            const viewState = givenAnInitialViewState();
+            if (!viewState.isInitialState()) throw new Error('unexpected state');
+            expect(viewState.value).toBe(initialValue);
+        });
+
+        test('given a loading view state when it is narrowed then its current and target values can be read', () => {
+            const viewState = givenALoadingViewState();
+            if (!viewState.isLoadingState()) throw new Error('unexpected state');
+            expect([viewState.current, viewState.target, viewState.progress]).toEqual([loadingCurrentValue, loadingTargetValue, null]);
+        });
+
+        test('given a success view state when it is narrowed then its old and succeeded values can be read', () => {
+            const viewState = givenASuccessViewState();
+            if (!viewState.isSuccessState()) throw new Error('unexpected state');
+            expect([viewState.old, viewState.succeeded]).toEqual([successOldValue, successSucceededValue]);
+        });
+
+        test('given a failure view state when it is narrowed then its current and failed values and its error can be read', () => {
+            const viewState = givenAFailureViewState();
+            if (!viewState.isFailureState()) throw new Error('unexpected state');
+            expect([viewState.current, viewState.failed, viewState.error]).toEqual([failureCurrentValue, failureFailedValue, error]);
+        });
+    });
+
+    describe('equals', () => {
+        test.each([
+            [givenAnInitialViewState(), givenAnInitialViewState()],
+            [givenALoadingViewState(), givenALoadingViewState()],
+            [givenASuccessViewState(), givenASuccessViewState()],
+            [givenAFailureViewState(), givenAFailureViewState()],
+        ])('given %p and an identical state when comparing them then they are equal', (viewState, other) => {
+            expect(viewState.equals(other)).toBe(true);
+        });
+
+        test.each([
+            [givenAnInitialViewState(), EditableViewState.initial('other')],
+            [givenALoadingViewState(), EditableViewState.loading(loadingCurrentValue, 'other')],
+            [givenALoadingViewState(), EditableViewState.loading(loadingCurrentValue, loadingTargetValue, LoadingProgress.fromFraction(0.5))],
+            [givenASuccessViewState(), EditableViewState.success('other', successSucceededValue)],
+            [givenAFailureViewState(), EditableViewState.failure(failureCurrentValue, failureFailedValue, Error('error'))],
+            [givenAFailureViewState(), EditableViewState.loading(failureCurrentValue, failureFailedValue)],
+        ])('given %p and %p when comparing them then they are not equal', (viewState, other) => {
+            expect(viewState.equals(other)).toBe(false);
+        });
+
+        test('given two initial view states with equal values when comparing them with a value comparator then they are equal', () => {
+            const viewState = EditableViewState.initial({ id: 1 });
+            const other = EditableViewState.initial({ id: 1 });
+
+            expect(viewState.equals(other)).toBe(false);
+            expect(EditableViewState.equals(viewState, other, (value, otherValue) => value.id === otherValue.id)).toBe(true);
+        });
+
+        test('given two failure view states with equal errors when comparing them with an error comparator then they are equal', () => {
+            const viewState = EditableViewState.failure(failureCurrentValue, failureFailedValue, Error('error'));
+            const other = EditableViewState.failure(failureCurrentValue, failureFailedValue, Error('error'));
+            const errorEquals = (error: Error, otherError: Error) => error.message === otherError.message;
+
+            expect(viewState.equals(other)).toBe(false);
+            expect(viewState.equals(other, undefined, errorEquals)).toBe(true);
+            expect(EditableViewState.equals(viewState, other, undefined, errorEquals)).toBe(true);
+        });
+    });
+
+    describe('fromLoadable', () => {
+        test('given a success loadable view state when converting it then an initial view state with its value is retrieved', () => {
+            expect(EditableViewState.fromLoadable(LoadableViewState.success(initialValue))).toEqual(givenAnInitialViewState());
+        });
+
+        test.each([
+            [LoadableViewState.initial<string>()],
+            [LoadableViewState.loading<string>()],
+            [LoadableViewState.refreshing('previous')],
+            [LoadableViewState.failure<string>(error)],
+        ])('given %p when converting it then null is retrieved', (loadable) => {
+            expect(EditableViewState.fromLoadable(loadable)).toBeNull();
+        });
+    });
+
+    describe('toLoadable', () => {
+        const progress = LoadingProgress.fromFraction(0.5);
+
+        test.each([
+            [givenAnInitialViewState(), LoadableViewState.initial()],
+            [EditableViewState.loading(loadingCurrentValue, loadingTargetValue, progress), LoadableViewState.refreshing(loadingCurrentValue, progress)],
+            [givenASuccessViewState(), LoadableViewState.success(successSucceededValue)],
+            [givenAFailureViewState(), LoadableViewState.refreshFailure(error, failureCurrentValue)],
+        ])('given %p when converting it then %p is retrieved', (viewState, expectedLoadable) => {
+            expect(viewState.toLoadable()).toEqual(expectedLoadable);
+        });
+    });
+
+    describe('foldLoaded', () => {
+        const whenFoldingLoaded = (loadable: LoadableViewState<string>, editable: EditableViewState<string> | null) =>
+            EditableViewState.foldLoaded(loadable, editable, {
+                onNotLoaded: (loadable) => `not loaded: ${loadable.status}`,
+                onEditing: (editable) => `editing: ${editable.getRelevant()}`,
+            });
+
+        test.each([[LoadableViewState.initial<string>()], [LoadableViewState.loading<string>()], [LoadableViewState.failure<string>(error)]])(
+            'given %p and no editable view state when folding then the value is not loaded',
+            (loadable) => {
+                expect(whenFoldingLoaded(loadable, null)).toBe(`not loaded: ${loadable.status}`);
+            },
+        );
+
+        test('given a success loadable view state and no editable view state when folding then the loaded value is being edited', () => {
+            expect(whenFoldingLoaded(LoadableViewState.success(initialValue), null)).toBe(`editing: ${initialValue}`);
+        });
+
+        test('given a refreshing loadable view state and an editable view state when folding then the editable view state is being edited', () => {
+            expect(whenFoldingLoaded(LoadableViewState.refreshing(initialValue), givenALoadingViewState())).toBe(`editing: ${loadingCurrentValue}`);
+        });
+    });
+
+    describe('invalid', () => {
+        const issues = [{ message: 'required', code: 'required' }];
+        const invalidCurrentValue = 'current';
+        const invalidCandidateValue = '';
+        const givenAnInvalidViewState = () => EditableViewState.invalid<string>(invalidCurrentValue, invalidCandidateValue, issues);
+
+        const required = (value: string) => (value.length === 0 ? issues : []);
+
+        test('given an invalid view state when querying it then it is invalid and keeps the current value as the relevant one', () => {
+            const viewState = givenAnInvalidViewState();
+
+            expect([viewState.status, viewState.isInvalid, viewState.isInitial, viewState.isFailure]).toEqual(['invalid', true, false, false]);
+            expect(viewState.getRelevant()).toBe(invalidCurrentValue);
+            expect(viewState.getPendingOrNull()).toBe(invalidCandidateValue);
+            expect(viewState.issuesOrNull()).toEqual(issues);
+            expect(viewState.errorOrNull()).toBeNull();
+        });
+
+        test.each([[givenAnInitialViewState()], [givenAFailureViewState()]])('given %p when getting the issues then null is retrieved', (viewState) => {
+            expect(viewState.issuesOrNull()).toBeNull();
+        });
+
+        test('given an invalid view state when it is narrowed then its candidate value and issues can be read', () => {
+            const viewState = givenAnInvalidViewState();
+            if (!viewState.isInvalidState()) throw new Error('unexpected state');
+            expect([viewState.current, viewState.candidate, viewState.issues]).toEqual([invalidCurrentValue, invalidCandidateValue, issues]);
+        });
+
+        test('given an invalid view state when handling onInvalid then the action is performed with its values and issues', () => {
+            const perform = jest.fn<(current: string, candidate: string, issues: readonly { message: string }[]) => void>();
+
+            givenAnInvalidViewState().onInvalid(perform);
+
+            expect(perform).toBeCalledWith(invalidCurrentValue, invalidCandidateValue, issues);
+        });
+
+        test('given an invalid view state when folding with an invalid handler then the invalid handler is called', () => {
+            const result = givenAnInvalidViewState().fold({
+                onSuccess: () => 'success',
+                onFailure: () => 'failure',
+                onInitial: () => 'initial',
+                onLoading: () => 'loading',
+                onInvalid: (_current, candidate, issues) => `invalid ${candidate.length}: ${issues.length}`,
+            });
+            expect(result).toBe('invalid 0: 1');
+        });
+
+        test('given an invalid view state when folding with individual handlers then the invalid handler is called', () => {
+            const result = givenAnInvalidViewState().fold(
+                () => 'success',
+                () => 'failure',
+                () => 'initial',
+                () => 'loading',
+                (current) => `invalid ${current}`,
+            );
+            expect(result).toBe(`invalid ${invalidCurrentValue}`);
+        });
+
+        test('given an invalid view state when matching without a handler for it then otherwise is called', () => {
+            expect(givenAnInvalidViewState().match({ onInitial: () => 'initial', otherwise: () => 'otherwise' })).toBe('otherwise');
+        });
+
+        test('given an invalid view state when converting it then its union, loadable, string, and wire format describe it', () => {
+            const viewState = givenAnInvalidViewState();
+
+            expect(viewState.toUnion()).toEqual({ status: 'invalid', current: invalidCurrentValue, candidate: invalidCandidateValue, issues });
+            expect(viewState.toLoadable()).toEqual(LoadableViewState.initial());
+            expect(viewState.toString()).toBe(`Invalid: ${invalidCurrentValue} ->  (required)`);
+            expect(EditableViewState.fromJSON<string>(JSON.stringify(viewState))).toEqual(viewState);
+        });
+
+        test('given an invalid view state when mapping then its values are transformed', () => {
+            expect(givenAnInvalidViewState().map((value) => value.length)).toEqual(EditableViewState.invalid(invalidCurrentValue.length, 0, issues));
+        });
+
+        test('given two invalid view states when comparing them then their values and issues are compared', () => {
+            const viewState = givenAnInvalidViewState();
+
+            expect(viewState.equals(EditableViewState.invalid(invalidCurrentValue, invalidCandidateValue, [{ message: 'required', code: 'required' }]))).toBe(
+                true,
+            );
+            expect(viewState.equals(EditableViewState.invalid(invalidCurrentValue, invalidCandidateValue, [{ message: 'required' }]))).toBe(false);
+        });
+
+        test.each([
+            [invalidCandidateValue, EditableViewState.invalid(initialValue, invalidCandidateValue, issues)],
+            ['valid', EditableViewState.loading(initialValue, 'valid')],
+        ])('given a candidate value %p when validating it then %p is retrieved', (candidate, expectedViewState) => {
+            expect(givenAnInitialViewState().validate(candidate, [required])).toEqual(expectedViewState);
+        });
+
+        test('given an asynchronous validator rejecting a candidate value when validating it then an invalid view state is retrieved', async () => {
+            const taken = (value: string) => Promise.resolve(value === 'taken' ? [{ message: 'taken' }] : []);
+
+            expect(await givenAnInitialViewState().validateAsync('taken', [required, taken])).toEqual(
+                EditableViewState.invalid(initialValue, 'taken', [{ message: 'taken' }]),
+            );
+        });
+    });
+
+    describe('transitions', () => {
+        const newError = Error('new error');
+
+        test.each([
+            [givenAnInitialViewState(), EditableViewState.loading(initialValue, 'new')],
+            [givenASuccessViewState(), EditableViewState.loading(successSucceededValue, 'new')],
+            [givenAFailureViewState(), EditableViewState.loading(failureCurrentValue, 'new')],
+            [EditableViewState.invalid('current', '', []), EditableViewState.loading('current', 'new')],
+        ])('given %p when starting to save a value then %p is retrieved', (viewState, expectedViewState) => {
+            expect(viewState.startSaving('new')).toEqual(expectedViewState);
+        });
+
+        test('given a loading view state when succeeding then a success view state with the target value is retrieved', () => {
+            expect(givenALoadingViewState().succeed()).toEqual(EditableViewState.success(loadingCurrentValue, loadingTargetValue));
+        });
+
+        test('given a loading view state when failing then a failure view state with the target value is retrieved', () => {
+            expect(givenALoadingViewState().fail(newError)).toEqual(EditableViewState.failure(loadingCurrentValue, loadingTargetValue, newError));
+        });
+
+        test.each([
+            [givenAnInitialViewState(), initialValue],
+            [givenALoadingViewState(), loadingCurrentValue],
+            [givenASuccessViewState(), successSucceededValue],
+            [givenAFailureViewState(), failureCurrentValue],
+        ])('given %p when resetting then an initial view state with %p is retrieved', (viewState, expectedValue) => {
+            expect(viewState.reset()).toEqual(EditableViewState.initial(expectedValue));
+        });
+
+        test('given a failure view state when retrying then a loading view state with the failed value is retrieved', () => {
+            expect(givenAFailureViewState().retry()).toEqual(EditableViewState.loading(failureCurrentValue, failureFailedValue));
+        });
+
+        test.each([
+            ['start saving', givenALoadingViewState(), (viewState: EditableViewState<string>) => viewState.startSaving('new')],
+            ['succeed', givenAnInitialViewState(), (viewState: EditableViewState<string>) => viewState.succeed()],
+            ['fail', givenASuccessViewState(), (viewState: EditableViewState<string>) => viewState.fail(newError)],
+            ['retry', givenALoadingViewState(), (viewState: EditableViewState<string>) => viewState.retry()],
+        ])('given an illegal %p transition from %p when transitioning then an IllegalTransitionError is thrown', (transition, viewState, whenTransitioning) => {
+            expect(() => whenTransitioning(viewState)).toThrow(new IllegalTransitionError(viewState.status, transition));
+        });
+
+        test.each([
+            [givenALoadingViewState(), (viewState: EditableViewState<string>) => viewState.tryStartSaving('new')],
+            [givenAnInitialViewState(), (viewState: EditableViewState<string>) => viewState.trySucceed()],
+            [givenASuccessViewState(), (viewState: EditableViewState<string>) => viewState.tryFail(newError)],
+            [givenALoadingViewState(), (viewState: EditableViewState<string>) => viewState.tryRetry()],
+        ])('given %p when trying an illegal transition then null is retrieved', (viewState, whenTryingToTransition) => {
+            expect(whenTryingToTransition(viewState)).toBeNull();
+        });
+
+        test.each([
+            [
+                'start saving',
+                givenALoadingViewState(),
+                (viewState: EditableViewState<string>, onIllegal: (error: IllegalTransitionError) => void) =>
+                    viewState.tryStartSaving('new', undefined, onIllegal),
+            ],
+            [
+                'succeed',
+                givenAnInitialViewState(),
+                (viewState: EditableViewState<string>, onIllegal: (error: IllegalTransitionError) => void) => viewState.trySucceed(undefined, onIllegal),
+            ],
+            [
+                'fail',
+                givenASuccessViewState(),
+                (viewState: EditableViewState<string>, onIllegal: (error: IllegalTransitionError) => void) => viewState.tryFail(newError, undefined, onIllegal),
+            ],
+            [
+                'retry',
+                givenALoadingViewState(),
+                (viewState: EditableViewState<string>, onIllegal: (error: IllegalTransitionError) => void) => viewState.tryRetry(undefined, onIllegal),
+            ],
+        ])(
+            'given an illegal %p transition from %p when trying it with a reporting function then the error is reported',
+            (transition, viewState, whenTrying) => {
+                const onIllegal = jest.fn<(error: IllegalTransitionError) => void>();
+
+                expect(whenTrying(viewState, onIllegal)).toBeNull();
+                expect(onIllegal).toBeCalledWith(new IllegalTransitionError(viewState.status, transition));
+                expect(onIllegal.mock.calls[0]?.[0]).toBeInstanceOf(IllegalTransitionError);
+            },
+        );
+
+        test('given a legal transition when trying it with a reporting function then nothing is reported', () => {
+            const onIllegal = jest.fn<(error: IllegalTransitionError) => void>();
+
+            givenALoadingViewState().trySucceed(undefined, onIllegal);
+
+            expect(onIllegal).not.toBeCalled();
+        });
+
+        test.each([
+            [givenAnInitialViewState().tryStartSaving('new'), EditableViewState.loading(initialValue, 'new')],
+            [givenALoadingViewState().trySucceed(), EditableViewState.success(loadingCurrentValue, loadingTargetValue)],
+            [givenALoadingViewState().tryFail(newError), EditableViewState.failure(loadingCurrentValue, loadingTargetValue, newError)],
+            [givenAFailureViewState().tryRetry(), EditableViewState.loading(failureCurrentValue, failureFailedValue)],
+        ])('given a legal transition when trying it then %p is retrieved', (viewState, expectedViewState) => {
+            expect(viewState).toEqual(expectedViewState);
+        });
+
+        test('given an illegal transition error when reading its message then the status and the transition are described', () => {
+            const illegalTransitionError = new IllegalTransitionError('initial', 'succeed');
+
+            expect(illegalTransitionError).toBeInstanceOf(IllegalTransitionError);
+            expect(illegalTransitionError.name).toBe('IllegalTransitionError');
+            expect(illegalTransitionError.message).toBe('cannot succeed from the initial state');
+        });
+    });
+
+    describe('timestamps', () => {
+        const givenAClockAt = (time: number): Clock => ({ now: () => time, schedule: () => () => {} });
+
+        test('given a save going through the lifecycle with a clock when reading its timestamps then every transition is recorded', () => {
+            const loading = givenAnInitialViewState().startSaving('new', givenAClockAt(1000));
+            const success = loading.succeed(givenAClockAt(2000));
+            const saving = success.startSaving('newer', givenAClockAt(3000));
+            const failure = saving.fail(error, givenAClockAt(4000));
+            const retrying = failure.retry(givenAClockAt(5000));
+
+            expect([loading.loadingStartedAt, loading.loadedAt, loading.failedAt]).toEqual([1000, null, null]);
+            expect([success.loadingStartedAt, success.loadedAt, success.failedAt]).toEqual([null, 2000, null]);
+            expect([saving.loadingStartedAt, saving.loadedAt]).toEqual([3000, 2000]);
+            expect([failure.loadedAt, failure.failedAt]).toEqual([2000, 4000]);
+            expect([retrying.loadingStartedAt, retrying.loadedAt, retrying.failedAt]).toEqual([5000, 2000, null]);
+        });
+
+        test('given factories with a clock when creating view states then their timestamps are recorded', () => {
+            expect(EditableViewState.loading('current', 'target', undefined, givenAClockAt(1000)).loadingStartedAt).toBe(1000);
+            expect(EditableViewState.success('old', 'succeeded', givenAClockAt(1000)).loadedAt).toBe(1000);
+            expect(EditableViewState.failure('current', 'failed', error, givenAClockAt(1000)).failedAt).toBe(1000);
+            expect(givenASuccessViewState().loadedAt).toBeNull();
+        });
+
+        test('given a success view state with timestamps when resetting it then the time the value was saved is kept', () => {
+            const viewState = EditableViewState.success('old', 'succeeded', givenAClockAt(1000)).startSaving('new', givenAClockAt(2000)).reset();
+
+            expect([viewState.isInitial, viewState.loadingStartedAt, viewState.loadedAt]).toEqual([true, null, 1000]);
+        });
+
+        test('given a loaded value with timestamps when seeding an edit with it then the time it was loaded is kept', () => {
+            expect(EditableViewState.fromLoadable(LoadableViewState.success('value', givenAClockAt(1000)))?.loadedAt).toBe(1000);
+            expect(EditableViewState.fromLoadable(LoadableViewState.success('value'))?.loadedAt).toBeNull();
+        });
+
+        test('given a success view state with timestamps when mapping it then the timestamps are kept', () => {
+            const viewState = EditableViewState.success('old', 'succeeded', givenAClockAt(1000));
+
+            expect(viewState.map((value) => value.length).loadedAt).toBe(1000);
+            expect(EditableViewState.failure('current', 'failed', error, givenAClockAt(2000)).mapError((failureError) => failureError.message).failedAt).toBe(
+                2000,
+            );
+        });
+
+        test.each([
+            [EditableViewState.success('old', 'succeeded', givenAClockAt(1000)), 2000, false],
+            [EditableViewState.success('old', 'succeeded', givenAClockAt(1000)), 2001, true],
+            [EditableViewState.initial('initial'), 1000, true],
+        ])('given %p when checking whether it is stale for a max age of 1000 at %p then %p is retrieved', (viewState, now, expectedIsStale) => {
+            expect(viewState.isStale(1000, now)).toBe(expectedIsStale);
+        });
+
+        test('given view states with different timestamps when comparing them then they are equal', () => {
+            expect(EditableViewState.success('old', 'new', givenAClockAt(1000)).equals(EditableViewState.success('old', 'new', givenAClockAt(2000)))).toBe(
+                true,
+            );
+        });
+
+        test('given a failure view state keeping a saved value when converting to json and restoring it then its timestamps are kept', () => {
+            const viewState = EditableViewState.success('old', 'new', givenAClockAt(1000)).startSaving('newer').fail(error, givenAClockAt(3000));
+
+            const json = viewState.toJSON();
+            const restoredViewState = EditableViewState.fromJSON<string>(JSON.stringify(json));
+
+            expect(json).toMatchObject({ loadedAt: 1000, failedAt: 3000 });
+            expect(restoredViewState).toEqual(viewState);
+        });
+
+        test('given a timestamp that is not a number when restoring then an error is thrown', () => {
+            expect(() => EditableViewState.fromJSON({ version: 1, type: 'initial', value: 'value', loadedAt: '1000' })).toThrow();
+        });
+
+        test('given a success view state with timestamps when validating a candidate value then the time the value was saved is kept', async () => {
+            const viewState = EditableViewState.success('old', 'new', givenAClockAt(1000));
+            const required = (value: string) => (value.length > 0 ? [] : [{ message: 'required' }]);
+
+            const invalid = viewState.validate('', [required], givenAClockAt(2000));
+            const loading = await viewState.validateAsync('newer', [required], givenAClockAt(2000));
+
+            expect([invalid.isInvalid, invalid.loadingStartedAt, invalid.loadedAt]).toEqual([true, null, 1000]);
+            expect([loading.isLoading, loading.loadingStartedAt, loading.loadedAt]).toEqual([true, 2000, 1000]);
+        });
+    });
 });
@@ -1,3 +1,12 @@
+import { Clock } from './clock';
+import { IllegalTransitionError } from './illegal-transition-error';
+import { LoadableViewState } from './loadable-view-state';
+import { LoadingProgress } from './loading-progress';
+import { toError } from './to-error';
+import { AsyncValidator, validate, validateAsync, ValidationIssue, Validator } from './validation';
+import { carry, isStale, noTimestamps, parseTimestamps, stamp, ViewStateTimestamps } from './view-state-timestamps';
+import { deserializeError, parseViewStateJSON, SerializedError, serializeError, VIEW_STATE_JSON_VERSION } from './view-state-json';
+
 class Initial<Value> {
     readonly type = 'initial';
 
@@ -10,6 +19,7 @@ class Loading<Value> {
     constructor(
         public readonly current: Value,
         public readonly target: Value,
+        public readonly progress: LoadingProgress | null = null,
     ) {}
 }
 
@@ -22,27 +32,125 @@ class Success<Value> {
     ) {}
 }
 
-class Failure<Value> {
+class Failure<Value, ErrorValue> {
     readonly type = 'failure';
 
     constructor(
         public readonly current: Value,
         public readonly failed: Value,
-        public readonly error: Error,
+        public readonly error: ErrorValue,
     ) {}
 }
 
-type EditableViewStateType<Value> = Initial<Value> | Loading<Value> | Success<Value> | Failure<Value>;
+class Invalid<Value> {
+    readonly type = 'invalid';
+
+    constructor(
+        public readonly current: Value,
+        public readonly candidate: Value,
+        public readonly issues: readonly ValidationIssue[],
+    ) {}
+}
+
+type EditableViewStateType<Value, ErrorValue> = Initial<Value> | Loading<Value> | Success<Value> | Failure<Value, ErrorValue> | Invalid<Value>;
+
+/**
+ * The wire format of an EditableViewState, as produced by `toJSON` and accepted by `fromJSON`. The times recorded by the state are kept as optional fields.
+ *
+ * @template ErrorJSON The wire format of the error encapsulated in a failure case.
+ */
+export type EditableViewStateJSON<ErrorJSON = SerializedError> = ViewStateTimestamps &
+    (
+        | { readonly version: number; readonly type: 'initial'; readonly value: unknown }
+        | { readonly version: number; readonly type: 'loading'; readonly current: unknown; readonly target: unknown; readonly progress?: LoadingProgress }
+        | { readonly version: number; readonly type: 'success'; readonly old: unknown; readonly succeeded: unknown }
+        | { readonly version: number; readonly type: 'failure'; readonly current: unknown; readonly failed: unknown; readonly error: ErrorJSON }
+        | {
+              readonly version: number;
+              readonly type: 'invalid';
+              readonly current: unknown;
+              readonly candidate: unknown;
+              readonly issues: readonly ValidationIssue[];
+          }
+    );
+
+/**
+ * The discriminant of an EditableViewState, as returned by `status`.
+ */
+export type EditableViewStateStatus = 'initial' | 'loading' | 'success' | 'failure' | 'invalid';
+
+/**
+ * A plain discriminated union describing an EditableViewState, as returned by `toUnion`, so it can be narrowed by its `status` in a `switch` statement.
+ *
+ * @template Value The type of the encapsulated values.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type EditableViewStateUnion<Value, ErrorValue = Error> =
+    | { readonly status: 'initial'; readonly value: Value }
+    | { readonly status: 'loading'; readonly current: Value; readonly target: Value; readonly progress: LoadingProgress | null }
+    | { readonly status: 'success'; readonly old: Value; readonly succeeded: Value }
+    | { readonly status: 'failure'; readonly current: Value; readonly failed: Value; readonly error: ErrorValue }
+    | { readonly status: 'invalid'; readonly current: Value; readonly candidate: Value; readonly issues: readonly ValidationIssue[] };
+
+/**
+ * An EditableViewState narrowed by `isInitialState`, exposing the encapsulated value.
+ *
+ * @template Value The type of the encapsulated values.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type EditableViewStateInitial<Value, ErrorValue = Error> = EditableViewState<Value, ErrorValue> &
+    Extract<EditableViewStateUnion<Value, ErrorValue>, { readonly status: 'initial' }>;
+
+/**
+ * An EditableViewState narrowed by `isLoadingState`, exposing the current and the target values and the progress of the loading state.
+ *
+ * @template Value The type of the encapsulated values.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type EditableViewStateLoading<Value, ErrorValue = Error> = EditableViewState<Value, ErrorValue> &
+    Extract<EditableViewStateUnion<Value, ErrorValue>, { readonly status: 'loading' }>;
+
+/**
+ * An EditableViewState narrowed by `isSuccessState`, exposing the old and the succeeded values.
+ *
+ * @template Value The type of the encapsulated values.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type EditableViewStateSuccess<Value, ErrorValue = Error> = EditableViewState<Value, ErrorValue> &
+    Extract<EditableViewStateUnion<Value, ErrorValue>, { readonly status: 'success' }>;
+
+/**
+ * An EditableViewState narrowed by `isFailureState`, exposing the current and the failed values and the error of the failure state.
+ *
+ * @template Value The type of the encapsulated values.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type EditableViewStateFailure<Value, ErrorValue = Error> = EditableViewState<Value, ErrorValue> &
+    Extract<EditableViewStateUnion<Value, ErrorValue>, { readonly status: 'failure' }>;
+
+/**
+ * An EditableViewState narrowed by `isInvalidState`, exposing the current value, the candidate value, and the issues it was rejected with.
+ *
+ * @template Value The type of the encapsulated values.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type EditableViewStateInvalid<Value, ErrorValue = Error> = EditableViewState<Value, ErrorValue> &
+    Extract<EditableViewStateUnion<Value, ErrorValue>, { readonly status: 'invalid' }>;
 
 /**
- * Represents the state of an editable view, which can be in one of several states: initial, loading, success, or failure.
+ * Represents the state of an editable view, which can be in one of several states: initial, loading, success, failure, or invalid when a candidate value
+ * is rejected by its validators before being saved.
  *
  * This interface provides methods to check the current state, perform state-specific actions, and transform or retrieve values based on the state.
  *
  * @template Value The type of the value associated with this state.
+ * @template ErrorValue The type of the error associated with a failure state. Defaults to Error.
  */
-export class EditableViewState<Value> {
-    constructor(private readonly editableViewState: EditableViewStateType<Value>) {}
+export class EditableViewState<Value, ErrorValue = Error> {
+    constructor(
+        private readonly editableViewState: EditableViewStateType<Value, ErrorValue>,
+        private readonly timestamps: ViewStateTimestamps = noTimestamps,
+    ) {}
 
     /**
      * Returns an instance in the initial state.
@@ -51,8 +159,8 @@ export class EditableViewState<Value> {
      * @param {Value} value - The value to be encapsulated within an initial state.
      * @return {EditableViewState<Value>} A new instance of EditableViewState with an initial state.
      */
-    static initial<Value>(value: Value): EditableViewState<Value> {
-        return new EditableViewState<Value>(new Initial<Value>(value));
+    static initial<Value, ErrorValue = Error>(value: Value): EditableViewState<Value, ErrorValue> {
+        return new EditableViewState<Value, ErrorValue>(new Initial<Value>(value));
     }
 
     /**
@@ -61,10 +169,12 @@ export class EditableViewState<Value> {
      * @template Value
      * @param {Value} current - The current value to be encapsulated within a loading state.
      * @param {Value} target - The target value to be encapsulated within a loading state.
+     * @param {LoadingProgress} progress - The optional progress of the loading.
+     * @param {Clock} clock - The optional clock recording when the loading started.
      * @return {EditableViewState<Value>} A new instance of EditableViewState with a loading state.
      */
-    static loading<Value>(current: Value, target: Value): EditableViewState<Value> {
-        return new EditableViewState<Value>(new Loading<Value>(current, target));
+    static loading<Value, ErrorValue = Error>(current: Value, target: Value, progress?: LoadingProgress, clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return new EditableViewState<Value, ErrorValue>(new Loading<Value>(current, target, progress ?? null), stamp(noTimestamps, 'loadingStartedAt', clock));
     }
 
     /**
@@ -73,10 +183,11 @@ export class EditableViewState<Value> {
      * @template Value
      * @param {Value} old - The old value to be encapsulated within a successful state.
      * @param {Value} succeeded - The succeeded value to be encapsulated within a successful state.
+     * @param {Clock} clock - The optional clock recording when the succeeded value was saved.
      * @return {EditableViewState<Value>} A new instance of EditableViewState with a success state.
      */
-    static success<Value>(old: Value, succeeded: Value): EditableViewState<Value> {
-        return new EditableViewState<Value>(new Success<Value>(old, succeeded));
+    static success<Value, ErrorValue = Error>(old: Value, succeeded: Value, clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return new EditableViewState<Value, ErrorValue>(new Success<Value>(old, succeeded), stamp(noTimestamps, 'loadedAt', clock));
     }
 
     /**
@@ -85,11 +196,141 @@ export class EditableViewState<Value> {
      * @template Value
      * @param {Value} current - The current value to be encapsulated within a failure state.
      * @param {Value} failed - The failed value to be encapsulated within a failure state.
-     * @param {Error} error - The error to be encapsulated within a failure state.
-     * @return {EditableViewState<Value>} A new instance of EditableViewState with a failure state.
+     * @param {ErrorValue} error - The error to be encapsulated within a failure state.
+     * @param {Clock} clock - The optional clock recording when the failure happened.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with a failure state.
+     */
+    static failure<Value, ErrorValue = Error>(current: Value, failed: Value, error: ErrorValue, clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return new EditableViewState<Value, ErrorValue>(new Failure<Value, ErrorValue>(current, failed, error), stamp(noTimestamps, 'failedAt', clock));
+    }
+
+    /**
+     * Returns an instance that encapsulates a candidate value rejected by its validators as an invalid state.
+     *
+     * @template Value
+     * @param {Value} current - The current value to be encapsulated within an invalid state.
+     * @param {Value} candidate - The rejected candidate value to be encapsulated within an invalid state.
+     * @param {ValidationIssue[]} issues - The issues the candidate value was rejected with.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with an invalid state.
+     */
+    static invalid<Value, ErrorValue = Error>(current: Value, candidate: Value, issues: readonly ValidationIssue[]): EditableViewState<Value, ErrorValue> {
+        return new EditableViewState<Value, ErrorValue>(new Invalid<Value>(current, candidate, issues));
+    }
+
+    /**
+     * Returns an instance restored from the given wire format, including the times it recorded.
+     *
+     * @template Value, ErrorValue
+     * @param {unknown} json - The wire format produced by `toJSON`, either as a JSON string or as an already parsed value.
+     * @param {(unknown) => Value} reviver - A function to restore each encapsulated value from its wire format. Defaults to returning it unchanged.
+     * @param {(unknown) => ErrorValue} errorReviver - A function to restore the error from its wire format. Defaults to `deserializeError`.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with the restored state.
+     * @throws {Error} If the given value is not a supported wire format.
+     */
+    static fromJSON<Value, ErrorValue = Error>(
+        json: unknown,
+        reviver: (value: unknown) => Value = (value) => value as Value,
+        errorReviver: (json: unknown) => ErrorValue = deserializeError as (json: unknown) => ErrorValue,
+    ): EditableViewState<Value, ErrorValue> {
+        const viewStateJSON = parseViewStateJSON(json);
+        const viewStateType = EditableViewState.fromViewStateJSON(viewStateJSON, reviver, errorReviver).editableViewState;
+        return new EditableViewState(viewStateType, parseTimestamps(viewStateJSON));
+    }
+
+    private static fromViewStateJSON<Value, ErrorValue>(
+        viewStateJSON: Record<string, unknown>,
+        reviver: (value: unknown) => Value,
+        errorReviver: (json: unknown) => ErrorValue,
+    ): EditableViewState<Value, ErrorValue> {
+        switch (viewStateJSON['type']) {
+            case 'initial':
+                return EditableViewState.initial(reviver(viewStateJSON['value']));
+            case 'loading':
+                return EditableViewState.loading(
+                    reviver(viewStateJSON['current']),
+                    reviver(viewStateJSON['target']),
+                    viewStateJSON['progress'] != null ? LoadingProgress.fromJSON(viewStateJSON['progress']) : undefined,
+                );
+            case 'success':
+                return EditableViewState.success(reviver(viewStateJSON['old']), reviver(viewStateJSON['succeeded']));
+            case 'failure':
+                return EditableViewState.failure(reviver(viewStateJSON['current']), reviver(viewStateJSON['failed']), errorReviver(viewStateJSON['error']));
+            case 'invalid':
+                if (!Array.isArray(viewStateJSON['issues'])) throw new Error('invalid validation issues json');
+                return EditableViewState.invalid(reviver(viewStateJSON['current']), reviver(viewStateJSON['candidate']), viewStateJSON['issues']);
+            default:
+                throw new Error(`unknown view state type: ${String(viewStateJSON['type'])}`);
+        }
+    }
+
+    /**
+     * Returns an instance in the initial state seeded with the value of the given loadable state if it is a success, otherwise returns null. The time the
+     * value was loaded is kept.
+     *
+     * @template Value
+     * @param {LoadableViewState<Value, ErrorValue>} loadable - The state of the load of the value to edit.
+     * @return {EditableViewState<Value, ErrorValue> | null} A new instance of EditableViewState with an initial state, or null if nothing was loaded.
+     */
+    static fromLoadable<Value, ErrorValue = Error>(loadable: LoadableViewState<Value, ErrorValue>): EditableViewState<Value, ErrorValue> | null {
+        if (!loadable.isSuccessState()) return null;
+        return new EditableViewState(new Initial(loadable.value), loadable.loadedAt !== null ? { loadedAt: loadable.loadedAt } : noTimestamps);
+    }
+
+    /**
+     * Transforms the state of a value that is first loaded and then edited, as a single choice between not loaded yet and loaded and being edited.
+     *
+     * The value is being edited if an editable state is given, or if the loadable state is a success, in which case the edit is seeded with its value.
+     * Otherwise, the value is not loaded yet.
+     *
+     * @template Value
+     * @template NewValue
+     * @param {LoadableViewState<Value, ErrorValue>} loadable - The state of the load of the value.
+     * @param {EditableViewState<Value, ErrorValue> | null} editable - The state of the edit of the value, or null if it was not edited yet.
+     * @param {Object} handlers - An object containing handler functions for both cases.
+     * @param {(LoadableViewState<Value, ErrorValue>) => NewValue} handlers.onNotLoaded - A function to transform the loadable state if the value is not
+     * loaded yet.
+     * @param {(EditableViewState<Value, ErrorValue>) => NewValue} handlers.onEditing - A function to transform the editable state if the value is loaded.
+     * @return {NewValue} The result of the handler for the current case.
+     */
+    static foldLoaded<Value, NewValue, ErrorValue = Error>(
+        loadable: LoadableViewState<Value, ErrorValue>,
+        editable: EditableViewState<Value, ErrorValue> | null,
+        handlers: {
+            onNotLoaded: (loadable: LoadableViewState<Value, ErrorValue>) => NewValue;
+            onEditing: (editable: EditableViewState<Value, ErrorValue>) => NewValue;
+        },
+    ): NewValue {
+        const editableViewState = editable ?? EditableViewState.fromLoadable(loadable);
+        if (editableViewState !== null) return handlers.onEditing(editableViewState);
+        return handlers.onNotLoaded(loadable);
+    }
+
+    /**
+     * Returns true if the given states are equal, as defined by `equals`. It can be used as the equality function of a store or a selector.
+     *
+     * @template Value
+     * @param {EditableViewState<Value, ErrorValue>} viewState - The first state.
+     * @param {EditableViewState<Value, ErrorValue>} other - The second state.
+     * @param {(Value, Value) => boolean} valueEquals - A function that returns true if two values are equal. Defaults to `Object.is`.
+     * @param {(ErrorValue, ErrorValue) => boolean} errorEquals - A function that returns true if two errors are equal. Defaults to `Object.is`.
+     * @return {boolean} True if both states are equal.
+     */
+    static equals<Value, ErrorValue = Error>(
+        viewState: EditableViewState<Value, ErrorValue>,
+        other: EditableViewState<Value, ErrorValue>,
+        valueEquals?: (value: Value, otherValue: Value) => boolean,
+        errorEquals?: (error: ErrorValue, otherError: ErrorValue) => boolean,
+    ): boolean {
+        return viewState.equals(other, valueEquals, errorEquals);
+    }
+
+    /**
+     * Returns the discriminant of the current state.
+     *
+     * @return {EditableViewStateStatus} "initial", "loading", "success", "failure", or "invalid".
      */
-    static failure<Value>(current: Value, failed: Value, error: Error): EditableViewState<Value> {
-        return new EditableViewState<Value>(new Failure<Value>(current, failed, error));
+    get status(): EditableViewStateStatus {
+        return this.editableViewState.type;
     }
 
     /**
@@ -128,24 +369,138 @@ export class EditableViewState<Value> {
         return this.editableViewState instanceof Failure;
     }
 
-    private static isInitial<Value>(editableViewState: EditableViewStateType<Value>): editableViewState is Initial<Value> {
+    /**
+     * Returns true if this instance represents an invalid state.
+     *
+     * @return {boolean} True if this instance represents an invalid state.
+     */
+    get isInvalid(): boolean {
+        return this.editableViewState instanceof Invalid;
+    }
+
+    /**
+     * Returns true if this instance represents an initial state, narrowing its type so that `value` can be read.
+     *
+     * @return {boolean} True if this instance represents an initial state.
+     */
+    isInitialState(): this is EditableViewStateInitial<Value, ErrorValue> {
+        return this.isInitial;
+    }
+
+    /**
+     * Returns true if this instance represents a loading state, narrowing its type so that `current`, `target`, and `progress` can be read.
+     *
+     * @return {boolean} True if this instance represents a loading state.
+     */
+    isLoadingState(): this is EditableViewStateLoading<Value, ErrorValue> {
+        return this.isLoading;
+    }
+
+    /**
+     * Returns true if this instance represents a success state, narrowing its type so that `old` and `succeeded` can be read.
+     *
+     * @return {boolean} True if this instance represents a success state.
+     */
+    isSuccessState(): this is EditableViewStateSuccess<Value, ErrorValue> {
+        return this.isSuccess;
+    }
+
+    /**
+     * Returns true if this instance represents a failure state, narrowing its type so that `current`, `failed`, and `error` can be read.
+     *
+     * @return {boolean} True if this instance represents a failure state.
+     */
+    isFailureState(): this is EditableViewStateFailure<Value, ErrorValue> {
+        return this.isFailure;
+    }
+
+    /**
+     * Returns true if this instance represents an invalid state, narrowing its type so that `current`, `candidate`, and `issues` can be read.
+     *
+     * @return {boolean} True if this instance represents an invalid state.
+     */
+    isInvalidState(): this is EditableViewStateInvalid<Value, ErrorValue> {
+        return this.isInvalid;
+    }
+
+    protected get value(): Value | undefined {
+        if (EditableViewState.isInitial(this.editableViewState)) return this.editableViewState.value;
+        return undefined;
+    }
+
+    protected get current(): Value | undefined {
+        if (
+            EditableViewState.isLoading(this.editableViewState) ||
+            EditableViewState.isFailure(this.editableViewState) ||
+            EditableViewState.isInvalid(this.editableViewState)
+        ) {
+            return this.editableViewState.current;
+        }
+        return undefined;
+    }
+
+    protected get target(): Value | undefined {
+        if (EditableViewState.isLoading(this.editableViewState)) return this.editableViewState.target;
+        return undefined;
+    }
+
+    protected get progress(): LoadingProgress | null | undefined {
+        if (EditableViewState.isLoading(this.editableViewState)) return this.editableViewState.progress;
+        return undefined;
+    }
+
+    protected get old(): Value | undefined {
+        if (EditableViewState.isSuccess(this.editableViewState)) return this.editableViewState.old;
+        return undefined;
+    }
+
+    protected get succeeded(): Value | undefined {
+        if (EditableViewState.isSuccess(this.editableViewState)) return this.editableViewState.succeeded;
+        return undefined;
+    }
+
+    protected get failed(): Value | undefined {
+        if (EditableViewState.isFailure(this.editableViewState)) return this.editableViewState.failed;
+        return undefined;
+    }
+
+    protected get error(): ErrorValue | undefined {
+        if (EditableViewState.isFailure(this.editableViewState)) return this.editableViewState.error;
+        return undefined;
+    }
+
+    protected get candidate(): Value | undefined {
+        if (EditableViewState.isInvalid(this.editableViewState)) return this.editableViewState.candidate;
+        return undefined;
+    }
+
+    protected get issues(): readonly ValidationIssue[] | undefined {
+        if (EditableViewState.isInvalid(this.editableViewState)) return this.editableViewState.issues;
+        return undefined;
+    }
+
+    private static isInitial<Value, ErrorValue>(editableViewState: EditableViewStateType<Value, ErrorValue>): editableViewState is Initial<Value> {
         return editableViewState instanceof Initial;
     }
 
-    private static isLoading<Value>(editableViewState: EditableViewStateType<Value>): editableViewState is Loading<Value> {
+    private static isLoading<Value, ErrorValue>(editableViewState: EditableViewStateType<Value, ErrorValue>): editableViewState is Loading<Value> {
         return editableViewState instanceof Loading;
     }
 
-    private static isSuccess<Value>(editableViewState: EditableViewStateType<Value>): editableViewState is Success<Value> {
+    private static isSuccess<Value, ErrorValue>(editableViewState: EditableViewStateType<Value, ErrorValue>): editableViewState is Success<Value> {
         return editableViewState instanceof Success;
     }
 
-    private static isFailure<Value>(editableViewState: EditableViewStateType<Value>): editableViewState is Failure<Value> {
+    private static isFailure<Value, ErrorValue>(editableViewState: EditableViewStateType<Value, ErrorValue>): editableViewState is Failure<Value, ErrorValue> {
         return editableViewState instanceof Failure;
     }
 
+    private static isInvalid<Value, ErrorValue>(editableViewState: EditableViewStateType<Value, ErrorValue>): editableViewState is Invalid<Value> {
+        return editableViewState instanceof Invalid;
+    }
+
     /**
-     * Returns the relevant value.
+     * Returns the relevant value. The relevant value of an invalid state is its current value, since the candidate value was not saved.
      *
      * @template Value
      * @return {Value} The relevant value.
@@ -167,29 +522,146 @@ export class EditableViewState<Value> {
             return this.editableViewState.current;
         }
 
+        if (EditableViewState.isInvalid(this.editableViewState)) {
+            return this.editableViewState.current;
+        }
+
         throw new Error('unreachable state');
     }
 
     /**
-     * Returns the error if the current state is a failure, otherwise returns null.
+     * Returns the progress if the current state is loading and reports one, otherwise returns null.
+     *
+     * @return {LoadingProgress | null} The progress of the loading state, or null if there is none.
+     */
+    progressOrNull(): LoadingProgress | null {
+        if (EditableViewState.isLoading(this.editableViewState)) {
+            return this.editableViewState.progress;
+        }
+        return null;
+    }
+
+    /**
+     * Returns the error if the current state is a failure, otherwise returns null. An invalid state has no error, since its candidate value was not saved:
+     * its issues are returned by `issuesOrNull`.
      *
-     * @return {Error | null} The error associated with the failure state, or null if there is no failure.
+     * @return {ErrorValue | null} The error associated with the failure state, or null if there is no failure.
      */
-    errorOrNull(): Error | null {
+    errorOrNull(): ErrorValue | null {
         if (EditableViewState.isFailure(this.editableViewState)) {
             return this.editableViewState.error;
         }
         return null;
     }
 
+    /**
+     * Returns the time the loading started if the current state is loading and was created with a clock, otherwise returns null.
+     *
+     * @return {number | null} The time in milliseconds since the epoch, or null if it was not recorded.
+     */
+    get loadingStartedAt(): number | null {
+        return this.timestamps.loadingStartedAt ?? null;
+    }
+
+    /**
+     * Returns the time the relevant value was saved if its save was recorded with a clock, otherwise returns null. Loading and failure states started from a
+     * success state keep the time of its save.
+     *
+     * @return {number | null} The time in milliseconds since the epoch, or null if it was not recorded.
+     */
+    get loadedAt(): number | null {
+        return this.timestamps.loadedAt ?? null;
+    }
+
+    /**
+     * Returns the time the failure happened if the current state is a failure and was created with a clock, otherwise returns null.
+     *
+     * @return {number | null} The time in milliseconds since the epoch, or null if it was not recorded.
+     */
+    get failedAt(): number | null {
+        return this.timestamps.failedAt ?? null;
+    }
+
+    /**
+     * Returns true if the relevant value should be loaded again: it was not saved at a recorded time, or it was saved more than the given age ago.
+     *
+     * @param {number} maxAge - The age in milliseconds after which a saved value is stale.
+     * @param {number} now - The current time in milliseconds since the epoch. Defaults to `Date.now()`.
+     * @return {boolean} True if the relevant value is stale.
+     */
+    isStale(maxAge: number, now: number = Date.now()): boolean {
+        return isStale(this.timestamps, maxAge, now);
+    }
+
+    /**
+     * Returns the issues the candidate value was rejected with if the current state is invalid, otherwise returns null.
+     *
+     * @return {ValidationIssue[] | null} The issues of the invalid state, or null if the state is not invalid.
+     */
+    issuesOrNull(): readonly ValidationIssue[] | null {
+        if (EditableViewState.isInvalid(this.editableViewState)) {
+            return this.editableViewState.issues;
+        }
+        return null;
+    }
+
+    /**
+     * Returns the target value if the state is loading, otherwise returns null.
+     *
+     * @template Value
+     * @return {Value | null} The target value being saved, or null if the state is not loading.
+     */
+    getTargetOrNull(): Value | null {
+        if (EditableViewState.isLoading(this.editableViewState)) {
+            return this.editableViewState.target;
+        }
+        return null;
+    }
+
+    /**
+     * Returns the old value if the state is a success, otherwise returns null.
+     *
+     * @template Value
+     * @return {Value | null} The value replaced by the succeeded one, or null if the state is not success.
+     */
+    getOldOrNull(): Value | null {
+        if (EditableViewState.isSuccess(this.editableViewState)) {
+            return this.editableViewState.old;
+        }
+        return null;
+    }
+
+    /**
+     * Returns the value that has not been saved yet: the target value if the state is loading, the failed value if the state is a failure, or the candidate
+     * value if the state is invalid, otherwise returns null.
+     *
+     * @template Value
+     * @return {Value | null} The value that has not been saved yet, or null if the state is initial or success.
+     */
+    getPendingOrNull(): Value | null {
+        if (EditableViewState.isLoading(this.editableViewState)) {
+            return this.editableViewState.target;
+        }
+
+        if (EditableViewState.isFailure(this.editableViewState)) {
+            return this.editableViewState.failed;
+        }
+
+        if (EditableViewState.isInvalid(this.editableViewState)) {
+            return this.editableViewState.candidate;
+        }
+
+        return null;
+    }
+
     /**
      * Performs the given action if this instance represents an initial state. Returns the original state unchanged.
      *
      * @template Value
      * @param {(Value) => void} perform - The callback function to be executed if the state is initial.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @return {EditableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onInitial(perform: (value: Value) => void): EditableViewState<Value> {
+    onInitial(perform: (value: Value) => void): EditableViewState<Value, ErrorValue> {
         if (EditableViewState.isInitial(this.editableViewState)) {
             perform(this.editableViewState.value);
         }
@@ -200,12 +672,12 @@ export class EditableViewState<Value> {
      * Performs the given action if this instance represents a loading state. Returns the original state unchanged.
      *
      * @template Value
-     * @param {(Value, Value) => void} perform - The callback function to be executed if the state is loading.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @param {(Value, Value, LoadingProgress | null) => void} perform - The callback function to be executed if the state is loading.
+     * @return {EditableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onLoading(perform: (current: Value, target: Value) => void): EditableViewState<Value> {
+    onLoading(perform: (current: Value, target: Value, progress: LoadingProgress | null) => void): EditableViewState<Value, ErrorValue> {
         if (EditableViewState.isLoading(this.editableViewState)) {
-            perform(this.editableViewState.current, this.editableViewState.target);
+            perform(this.editableViewState.current, this.editableViewState.target, this.editableViewState.progress);
         }
         return this;
     }
@@ -215,9 +687,9 @@ export class EditableViewState<Value> {
      *
      * @template Value
      * @param {(Value, Value) => void} perform - The callback function to be executed if the state is success.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @return {EditableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onSuccess(perform: (old: Value, succeeded: Value) => void): EditableViewState<Value> {
+    onSuccess(perform: (old: Value, succeeded: Value) => void): EditableViewState<Value, ErrorValue> {
         if (EditableViewState.isSuccess(this.editableViewState)) {
             perform(this.editableViewState.old, this.editableViewState.succeeded);
         }
@@ -228,16 +700,255 @@ export class EditableViewState<Value> {
      * Performs the given action on the encapsulated error if this instance represents a failure state. Returns the original state unchanged.
      *
      * @template Value
-     * @param {(Value, Value, Error) => void} perform - The callback function to be executed if the state is failure.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @param {(Value, Value, ErrorValue) => void} perform - The callback function to be executed if the state is failure.
+     * @return {EditableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onFailure(perform: (current: Value, failed: Value, error: Error) => void): EditableViewState<Value> {
+    onFailure(perform: (current: Value, failed: Value, error: ErrorValue) => void): EditableViewState<Value, ErrorValue> {
         if (EditableViewState.isFailure(this.editableViewState)) {
             perform(this.editableViewState.current, this.editableViewState.failed, this.editableViewState.error);
         }
         return this;
     }
 
+    /**
+     * Performs the given action on the encapsulated issues if this instance represents an invalid state. Returns the original state unchanged.
+     *
+     * @template Value
+     * @param {(Value, Value, ValidationIssue[]) => void} perform - The callback function to be executed if the state is invalid.
+     * @return {EditableViewState<Value, ErrorValue>} The original unchanged state.
+     */
+    onInvalid(perform: (current: Value, candidate: Value, issues: readonly ValidationIssue[]) => void): EditableViewState<Value, ErrorValue> {
+        if (EditableViewState.isInvalid(this.editableViewState)) {
+            perform(this.editableViewState.current, this.editableViewState.candidate, this.editableViewState.issues);
+        }
+        return this;
+    }
+
+    /**
+     * Validates the given candidate value before saving it. Returns an invalid state keeping the relevant value as the current one if any validator reports
+     * an issue, otherwise a loading state saving the candidate value. Both keep the time the relevant value was loaded.
+     *
+     * @template Value
+     * @param {Value} candidate - The value to validate and save.
+     * @param {Validator<Value>[]} validators - The synchronous validators to run.
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState in the invalid or loading state.
+     */
+    validate(candidate: Value, validators: readonly Validator<Value>[], clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return this.validated(candidate, validate(candidate, validators), clock);
+    }
+
+    /**
+     * Validates the given candidate value before saving it with synchronous and asynchronous validators. Resolves to an invalid state keeping the relevant
+     * value as the current one if any validator reports an issue, otherwise to a loading state saving the candidate value. Both keep the time the relevant
+     * value was loaded.
+     *
+     * @template Value
+     * @param {Value} candidate - The value to validate and save.
+     * @param {(Validator<Value> | AsyncValidator<Value>)[]} validators - The validators to run concurrently.
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @return {Promise<EditableViewState<Value, ErrorValue>>} A new instance of EditableViewState in the invalid or loading state.
+     */
+    async validateAsync(
+        candidate: Value,
+        validators: readonly (Validator<Value> | AsyncValidator<Value>)[],
+        clock?: Clock,
+    ): Promise<EditableViewState<Value, ErrorValue>> {
+        return this.validated(candidate, await validateAsync(candidate, validators), clock);
+    }
+
+    private validated(candidate: Value, issues: readonly ValidationIssue[], clock: Clock | undefined): EditableViewState<Value, ErrorValue> {
+        if (issues.length > 0) return new EditableViewState(new Invalid(this.getRelevant(), candidate, issues), carry(this.timestamps));
+        return new EditableViewState(new Loading(this.getRelevant(), candidate, null), stamp(this.timestamps, 'loadingStartedAt', clock));
+    }
+
+    /**
+     * Returns a loading state saving the given target value over the relevant value. Allowed from the initial, success, failure, and invalid states.
+     *
+     * @template Value
+     * @param {Value} target - The value to save.
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with a loading state.
+     * @throws {IllegalTransitionError} If the state is loading.
+     */
+    startSaving(target: Value, clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return this.tryStartSaving(target, clock) ?? this.illegalTransition('start saving');
+    }
+
+    /**
+     * Returns a loading state saving the given target value over the relevant value, like `startSaving`, or null if the state is loading, after reporting
+     * the illegal transition to the given function.
+     *
+     * @template Value
+     * @param {Value} target - The value to save.
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @param {(IllegalTransitionError) => void} onIllegal - An optional function reporting the error describing the transition if it is illegal.
+     * @return {EditableViewState<Value, ErrorValue> | null} A new instance of EditableViewState with a loading state, or null.
+     */
+    tryStartSaving(target: Value, clock?: Clock, onIllegal?: (error: IllegalTransitionError) => void): EditableViewState<Value, ErrorValue> | null {
+        if (this.isLoading) return this.reportIllegalTransition('start saving', onIllegal);
+        return new EditableViewState(new Loading(this.getRelevant(), target, null), stamp(this.timestamps, 'loadingStartedAt', clock));
+    }
+
+    /**
+     * Returns a success state replacing the current value with the target value being saved. Allowed from the loading state only.
+     *
+     * @template Value
+     * @param {Clock} clock - The optional clock recording when the target value was saved.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with a success state.
+     * @throws {IllegalTransitionError} If the state is not loading.
+     */
+    succeed(clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return this.trySucceed(clock) ?? this.illegalTransition('succeed');
+    }
+
+    /**
+     * Returns a success state replacing the current value with the target value being saved, like `succeed`, or null if the state is not loading, after
+     * reporting the illegal transition to the given function.
+     *
+     * @template Value
+     * @param {Clock} clock - The optional clock recording when the target value was saved.
+     * @param {(IllegalTransitionError) => void} onIllegal - An optional function reporting the error describing the transition if it is illegal.
+     * @return {EditableViewState<Value, ErrorValue> | null} A new instance of EditableViewState with a success state, or null.
+     */
+    trySucceed(clock?: Clock, onIllegal?: (error: IllegalTransitionError) => void): EditableViewState<Value, ErrorValue> | null {
+        if (!EditableViewState.isLoading(this.editableViewState)) return this.reportIllegalTransition('succeed', onIllegal);
+        return EditableViewState.success(this.editableViewState.current, this.editableViewState.target, clock);
+    }
+
+    /**
+     * Returns a failure state keeping the current value and the target value being saved as the failed one. Allowed from the loading state only.
+     *
+     * @template Value
+     * @param {ErrorValue} error - The error the save failed with.
+     * @param {Clock} clock - The optional clock recording when the failure happened.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with a failure state.
+     * @throws {IllegalTransitionError} If the state is not loading.
+     */
+    fail(error: ErrorValue, clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return this.tryFail(error, clock) ?? this.illegalTransition('fail');
+    }
+
+    /**
+     * Returns a failure state keeping the current value and the target value being saved as the failed one, like `fail`, or null if the state is not
+     * loading, after reporting the illegal transition to the given function.
+     *
+     * @template Value
+     * @param {ErrorValue} error - The error the save failed with.
+     * @param {Clock} clock - The optional clock recording when the failure happened.
+     * @param {(IllegalTransitionError) => void} onIllegal - An optional function reporting the error describing the transition if it is illegal.
+     * @return {EditableViewState<Value, ErrorValue> | null} A new instance of EditableViewState with a failure state, or null.
+     */
+    tryFail(error: ErrorValue, clock?: Clock, onIllegal?: (error: IllegalTransitionError) => void): EditableViewState<Value, ErrorValue> | null {
+        if (!EditableViewState.isLoading(this.editableViewState)) return this.reportIllegalTransition('fail', onIllegal);
+        const { current, target } = this.editableViewState;
+        return new EditableViewState(new Failure(current, target, error), stamp(this.timestamps, 'failedAt', clock));
+    }
+
+    /**
+     * Returns an initial state with the relevant value, discarding the value being saved, failed, or rejected, if any, and keeping the time the relevant
+     * value was saved. Allowed from every state.
+     *
+     * @template Value
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with an initial state.
+     */
+    reset(): EditableViewState<Value, ErrorValue> {
+        return new EditableViewState(new Initial(this.getRelevant()), carry(this.timestamps));
+    }
+
+    /**
+     * Returns a loading state saving the failed value again over the current value. Allowed from the failure state only.
+     *
+     * @template Value
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @return {EditableViewState<Value, ErrorValue>} A new instance of EditableViewState with a loading state.
+     * @throws {IllegalTransitionError} If the state is not a failure.
+     */
+    retry(clock?: Clock): EditableViewState<Value, ErrorValue> {
+        return this.tryRetry(clock) ?? this.illegalTransition('retry');
+    }
+
+    /**
+     * Returns a loading state saving the failed value again over the current value, like `retry`, or null if the state is not a failure, after reporting
+     * the illegal transition to the given function.
+     *
+     * @template Value
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @param {(IllegalTransitionError) => void} onIllegal - An optional function reporting the error describing the transition if it is illegal.
+     * @return {EditableViewState<Value, ErrorValue> | null} A new instance of EditableViewState with a loading state, or null.
+     */
+    tryRetry(clock?: Clock, onIllegal?: (error: IllegalTransitionError) => void): EditableViewState<Value, ErrorValue> | null {
+        if (!EditableViewState.isFailure(this.editableViewState)) return this.reportIllegalTransition('retry', onIllegal);
+        const { current, failed } = this.editableViewState;
+        return new EditableViewState(new Loading(current, failed, null), stamp(this.timestamps, 'loadingStartedAt', clock));
+    }
+
+    private illegalTransition(transition: string): never {
+        throw new IllegalTransitionError(this.status, transition);
+    }
+
+    private reportIllegalTransition(transition: string, onIllegal: ((error: IllegalTransitionError) => void) | undefined): null {
+        onIllegal?.(new IllegalTransitionError(this.status, transition));
+        return null;
+    }
+
+    /**
+     * Transforms every encapsulated value and returns a new EditableViewState of the same state with the transformed values. The timestamps of the state are
+     * kept.
+     *
+     * @template Value
+     * @template NewValue
+     * @param {(Value) => NewValue} transform - A function to transform each encapsulated value.
+     * @return {EditableViewState<NewValue, ErrorValue>} A new EditableViewState of the same state containing the transformed values.
+     */
+    map<NewValue>(transform: (value: Value) => NewValue): EditableViewState<NewValue, ErrorValue> {
+        return this.bimap(transform, (error) => error);
+    }
+
+    /**
+     * Transforms the encapsulated error if the state is a failure and returns a new EditableViewState reflecting the state of the transformation. The
+     * transformation can convert the error into another type, such as a domain error.
+     *
+     * @template Value
+     * @template ErrorValue
+     * @template NewErrorValue
+     * @param {(ErrorValue) => NewErrorValue} transform - A function to transform the encapsulated error if the state is failure.
+     * @return {EditableViewState<Value, NewErrorValue>} A new EditableViewState containing the transformed error, or the current state if the state is not
+     * failure.
+     */
+    mapError<NewErrorValue>(transform: (error: ErrorValue) => NewErrorValue): EditableViewState<Value, NewErrorValue> {
+        if (EditableViewState.isFailure(this.editableViewState)) {
+            const { current, failed, error } = this.editableViewState;
+            return new EditableViewState(new Failure(current, failed, transform(error)), this.timestamps);
+        }
+        return this as unknown as EditableViewState<Value, NewErrorValue>;
+    }
+
+    /**
+     * Transforms every encapsulated value and the encapsulated error and returns a new EditableViewState of the same state with the transformed values. The
+     * timestamps of the state are kept.
+     *
+     * @template Value
+     * @template NewValue
+     * @template NewErrorValue
+     * @param {(Value) => NewValue} transformValue - A function to transform each encapsulated value.
+     * @param {(ErrorValue) => NewErrorValue} transformError - A function to transform the encapsulated error if the state is failure.
+     * @return {EditableViewState<NewValue, NewErrorValue>} A new EditableViewState of the same state containing the transformed values and error.
+     */
+    bimap<NewValue, NewErrorValue>(
+        transformValue: (value: Value) => NewValue,
+        transformError: (error: ErrorValue) => NewErrorValue,
+    ): EditableViewState<NewValue, NewErrorValue> {
+        const transformed = this.fold<EditableViewState<NewValue, NewErrorValue>>({
+            onInitial: (value) => EditableViewState.initial(transformValue(value)),
+            onLoading: (current, target, progress) => EditableViewState.loading(transformValue(current), transformValue(target), progress ?? undefined),
+            onSuccess: (old, succeeded) => EditableViewState.success(transformValue(old), transformValue(succeeded)),
+            onFailure: (current, failed, error) => EditableViewState.failure(transformValue(current), transformValue(failed), transformError(error)),
+            onInvalid: (current, candidate, issues) => EditableViewState.invalid(transformValue(current), transformValue(candidate), issues),
+        });
+        return new EditableViewState(transformed.editableViewState, this.timestamps);
+    }
+
     /**
      * Transforms the encapsulated value if the state is a success and returns the transformation's result, or the result of the `onElse` function for all
      * other states.
@@ -246,18 +957,20 @@ export class EditableViewState<Value> {
      * @template NewValue
      * @param {Object} handlers - An object containing handler functions for each possible state.
      * @param {(Value, Value) => NewValue} handlers.onSuccess - A function to transform the encapsulated value if the state is success.
-     * @param {(Value, Value, Error) => NewValue} handlers.onFailure - A function to transform the encapsulated value if the state is error.
+     * @param {(Value, Value, ErrorValue) => NewValue} handlers.onFailure - A function to transform the encapsulated value if the state is error.
      * @param {(Value) => NewValue} handlers.onInitial - A function to transform the instance if the state is initial.
-     * @param {(Value, Value) => NewValue} handlers.onLoading - A function to transform the instance if the state is loading.
+     * @param {(Value, Value, LoadingProgress | null) => NewValue} handlers.onLoading - A function to transform the instance if the state is loading.
+     * @param {(Value, Value, ValidationIssue[]) => NewValue} handlers.onInvalid - A function to transform the instance if the state is invalid.
      * @return {NewValue} - The result of onSuccess for the encapsulated value if this instance represents success or the result of onFailure function for the
      * encapsulated error if it is failure or the result of onInitial function if this instance represents initial or the result of onLoading if this instance
      * represents loading.
      */
     fold<NewValue>(handlers: {
         onSuccess: (old: Value, succeeded: Value) => NewValue;
-        onFailure: (current: Value, failed: Value, error: Error) => NewValue;
+        onFailure: (current: Value, failed: Value, error: ErrorValue) => NewValue;
         onInitial: (value: Value) => NewValue;
-        onLoading: (current: Value, target: Value) => NewValue;
+        onLoading: (current: Value, target: Value, progress: LoadingProgress | null) => NewValue;
+        onInvalid: (current: Value, candidate: Value, issues: readonly ValidationIssue[]) => NewValue;
     }): NewValue;
 
     /**
@@ -267,36 +980,40 @@ export class EditableViewState<Value> {
      * @template Value
      * @template NewValue
      * @param {(Value, Value) => NewValue} onSuccess - A function to transform the encapsulated value if the state is success.
-     * @param {(Value, Value, Error) => NewValue} onFailure - A function to transform the encapsulated value if the state is error.
+     * @param {(Value, Value, ErrorValue) => NewValue} onFailure - A function to transform the encapsulated value if the state is error.
      * @param {(Value) => NewValue} onInitial - A function to transform the instance if the state is initial.
-     * @param {(Value, Value) => NewValue} onLoading - A function to transform the instance if the state is loading.
+     * @param {(Value, Value, LoadingProgress | null) => NewValue} onLoading - A function to transform the instance if the state is loading.
+     * @param {(Value, Value, ValidationIssue[]) => NewValue} onInvalid - A function to transform the instance if the state is invalid.
      * @return {NewValue} The result of onSuccess for the encapsulated value if this instance represents success or the result of onFailure function for the
      * encapsulated error if it is failure or the result of onInitial function if this instance represents initial or the result of onLoading if this instance
      * represents loading.
      */
     fold<NewValue>(
         onSuccess: (old: Value, succeeded: Value) => NewValue,
-        onFailure: (current: Value, failed: Value, error: Error) => NewValue,
+        onFailure: (current: Value, failed: Value, error: ErrorValue) => NewValue,
         onInitial: (value: Value) => NewValue,
-        onLoading: (current: Value, target: Value) => NewValue,
+        onLoading: (current: Value, target: Value, progress: LoadingProgress | null) => NewValue,
+        onInvalid: (current: Value, candidate: Value, issues: readonly ValidationIssue[]) => NewValue,
     ): NewValue;
 
     fold<NewValue>(
         handlers:
             | {
                   onSuccess: (old: Value, succeeded: Value) => NewValue;
-                  onFailure: (current: Value, failed: Value, error: Error) => NewValue;
+                  onFailure: (current: Value, failed: Value, error: ErrorValue) => NewValue;
                   onInitial: (value: Value) => NewValue;
-                  onLoading: (current: Value, target: Value) => NewValue;
+                  onLoading: (current: Value, target: Value, progress: LoadingProgress | null) => NewValue;
+                  onInvalid: (current: Value, candidate: Value, issues: readonly ValidationIssue[]) => NewValue;
               }
             | ((old: Value, succeeded: Value) => NewValue),
-        onFailure?: (current: Value, failed: Value, error: Error) => NewValue,
+        onFailure?: (current: Value, failed: Value, error: ErrorValue) => NewValue,
         onInitial?: (value: Value) => NewValue,
-        onLoading?: (current: Value, target: Value) => NewValue,
+        onLoading?: (current: Value, target: Value, progress: LoadingProgress | null) => NewValue,
+        onInvalid?: (current: Value, candidate: Value, issues: readonly ValidationIssue[]) => NewValue,
     ): NewValue {
         if (typeof handlers === 'object') {
-            const { onSuccess, onFailure, onInitial, onLoading } = handlers;
-            return this.fold(onSuccess, onFailure, onInitial, onLoading);
+            const { onSuccess, onFailure, onInitial, onLoading, onInvalid } = handlers;
+            return this.fold(onSuccess, onFailure, onInitial, onLoading, onInvalid);
         }
 
         if (EditableViewState.isSuccess(this.editableViewState)) {
@@ -308,25 +1025,183 @@ export class EditableViewState<Value> {
         }
 
         if (EditableViewState.isLoading(this.editableViewState)) {
-            return (onLoading as (current: Value, target: Value) => NewValue)(this.editableViewState.current, this.editableViewState.target);
+            return (onLoading as (current: Value, target: Value, progress: LoadingProgress | null) => NewValue)(
+                this.editableViewState.current,
+                this.editableViewState.target,
+                this.editableViewState.progress,
+            );
         }
 
         if (EditableViewState.isFailure(this.editableViewState)) {
-            return (onFailure as (current: Value, failed: Value, error: Error) => NewValue)(
+            return (onFailure as (current: Value, failed: Value, error: ErrorValue) => NewValue)(
                 this.editableViewState.current,
                 this.editableViewState.failed,
                 this.editableViewState.error,
             );
         }
 
+        if (EditableViewState.isInvalid(this.editableViewState)) {
+            return (onInvalid as (current: Value, candidate: Value, issues: readonly ValidationIssue[]) => NewValue)(
+                this.editableViewState.current,
+                this.editableViewState.candidate,
+                this.editableViewState.issues,
+            );
+        }
+
         throw new Error('unreachable state');
     }
 
+    /**
+     * Transforms the current state with the handler given for it, or with the `otherwise` function if there is no handler for it.
+     *
+     * @template Value
+     * @template NewValue
+     * @param {Object} handlers - An object containing handler functions for some of the states and an `otherwise` function for the rest.
+     * @param {(Value, Value) => NewValue} handlers.onSuccess - An optional function to transform the encapsulated value if the state is success.
+     * @param {(Value, Value, ErrorValue) => NewValue} handlers.onFailure - An optional function to transform the encapsulated value if the state is error.
+     * @param {(Value) => NewValue} handlers.onInitial - An optional function to transform the instance if the state is initial.
+     * @param {(Value, Value, LoadingProgress | null) => NewValue} handlers.onLoading - An optional function to transform the instance if the state is loading.
+     * @param {(Value, Value, ValidationIssue[]) => NewValue} handlers.onInvalid - An optional function to transform the instance if the state is invalid.
+     * @param {() => NewValue} handlers.otherwise - A function returning the result for the states without a handler.
+     * @return {NewValue} The result of the handler for the current state, or the result of `otherwise` if there is none.
+     */
+    match<NewValue>(handlers: {
+        onSuccess?: (old: Value, succeeded: Value) => NewValue;
+        onFailure?: (current: Value, failed: Value, error: ErrorValue) => NewValue;
+        onInitial?: (value: Value) => NewValue;
+        onLoading?: (current: Value, target: Value, progress: LoadingProgress | null) => NewValue;
+        onInvalid?: (current: Value, candidate: Value, issues: readonly ValidationIssue[]) => NewValue;
+        otherwise: () => NewValue;
+    }): NewValue {
+        const { onSuccess, onFailure, onInitial, onLoading, onInvalid, otherwise } = handlers;
+        return this.fold(onSuccess ?? otherwise, onFailure ?? otherwise, onInitial ?? otherwise, onLoading ?? otherwise, onInvalid ?? otherwise);
+    }
+
+    /**
+     * Converts the current state into a plain discriminated union, so it can be narrowed by its `status` in a `switch` statement.
+     *
+     * @template Value
+     * @return {EditableViewStateUnion<Value, ErrorValue>} The plain discriminated union describing the current state.
+     */
+    toUnion(): EditableViewStateUnion<Value, ErrorValue> {
+        return this.fold<EditableViewStateUnion<Value, ErrorValue>>({
+            onSuccess: (old, succeeded) => ({ status: 'success', old, succeeded }),
+            onFailure: (current, failed, error) => ({ status: 'failure', current, failed, error }),
+            onInitial: (value) => ({ status: 'initial', value }),
+            onLoading: (current, target, progress) => ({ status: 'loading', current, target, progress }),
+            onInvalid: (current, candidate, issues) => ({ status: 'invalid', current, candidate, issues }),
+        });
+    }
+
+    /**
+     * Converts the save operation into a LoadableViewState whose value is the saved one: an initial or invalid state is initial, a loading state is
+     * refreshing with the current value and the progress, a success state succeeds with the succeeded value, and a failure state fails keeping the current
+     * value.
+     *
+     * @template Value
+     * @return {LoadableViewState<Value, ErrorValue>} A new instance of LoadableViewState describing the save operation.
+     */
+    toLoadable(): LoadableViewState<Value, ErrorValue> {
+        return this.fold<LoadableViewState<Value, ErrorValue>>({
+            onSuccess: (_old, succeeded) => LoadableViewState.success(succeeded),
+            onFailure: (current, _failed, error) => LoadableViewState.refreshFailure(error, current),
+            onInitial: () => LoadableViewState.initial(),
+            onLoading: (current, _target, progress) => LoadableViewState.refreshing(current, progress ?? undefined),
+            onInvalid: () => LoadableViewState.initial(),
+        });
+    }
+
+    /**
+     * Returns true if the given state is in the same case as this one, with equal values, the same error, equal progress, and equal issues. Errors are
+     * compared with `Object.is` unless an error comparator is given. Timestamps are not compared.
+     *
+     * @template Value
+     * @param {EditableViewState<Value, ErrorValue>} other - The state to compare with.
+     * @param {(Value, Value) => boolean} valueEquals - A function that returns true if two values are equal. Defaults to `Object.is`.
+     * @param {(ErrorValue, ErrorValue) => boolean} errorEquals - A function that returns true if two errors are equal. Defaults to `Object.is`.
+     * @return {boolean} True if both states are equal.
+     */
+    equals(
+        other: EditableViewState<Value, ErrorValue>,
+        valueEquals: (value: Value, otherValue: Value) => boolean = Object.is,
+        errorEquals: (error: ErrorValue, otherError: ErrorValue) => boolean = Object.is,
+    ): boolean {
+        if (this === other) return true;
+        return this.fold({
+            onSuccess: (old, succeeded) => other.isSuccessState() && valueEquals(old, other.old) && valueEquals(succeeded, other.succeeded),
+            onFailure: (current, failed, error) =>
+                other.isFailureState() && valueEquals(current, other.current) && valueEquals(failed, other.failed) && errorEquals(error, other.error),
+            onInitial: (value) => other.isInitialState() && valueEquals(value, other.value),
+            onLoading: (current, target, progress) =>
+                other.isLoadingState() &&
+                valueEquals(current, other.current) &&
+                valueEquals(target, other.target) &&
+                LoadingProgress.equals(progress, other.progress),
+            onInvalid: (current, candidate, issues) =>
+                other.isInvalidState() && valueEquals(current, other.current) && valueEquals(candidate, other.candidate) && issuesEqual(issues, other.issues),
+        });
+    }
+
+    /**
+     * Converts the current state into its versioned wire format, together with the times it recorded. Unless an error replacer is given, the error of a
+     * failure state is converted into its name, message, cause, and code, after converting it into an Error if it is not one.
+     *
+     * This method is called by `JSON.stringify`, in which case the encapsulated values are left for `JSON.stringify` to convert.
+     *
+     * @template Value, ErrorJSON
+     * @param {(Value) => unknown} replacer - A function to convert each encapsulated value into its wire format. Defaults to returning it unchanged.
+     * @param {(ErrorValue) => ErrorJSON} errorReplacer - A function to convert the error into its wire format. Defaults to `serializeError`.
+     * @return {EditableViewStateJSON<ErrorJSON>} The wire format of the current state.
+     */
+    toJSON<ErrorJSON = SerializedError>(
+        replacer?: (value: Value) => unknown,
+        errorReplacer?: (error: ErrorValue) => ErrorJSON,
+    ): EditableViewStateJSON<ErrorJSON> {
+        const replace = typeof replacer === 'function' ? replacer : (value: Value): unknown => value;
+        const replaceError = errorReplacer ?? ((error: ErrorValue) => serializeError(toError(error)) as unknown as ErrorJSON);
+        const timestamps = this.timestamps;
+        return this.fold<EditableViewStateJSON<ErrorJSON>>({
+            onInitial: (value) => ({ version: VIEW_STATE_JSON_VERSION, type: 'initial', value: replace(value), ...timestamps }),
+            onLoading: (current, target, progress) => ({
+                version: VIEW_STATE_JSON_VERSION,
+                type: 'loading',
+                current: replace(current),
+                target: replace(target),
+                ...(progress !== null && { progress }),
+                ...timestamps,
+            }),
+            onSuccess: (old, succeeded) => ({
+                version: VIEW_STATE_JSON_VERSION,
+                type: 'success',
+                old: replace(old),
+                succeeded: replace(succeeded),
+                ...timestamps,
+            }),
+            onFailure: (current, failed, error) => ({
+                version: VIEW_STATE_JSON_VERSION,
+                type: 'failure',
+                current: replace(current),
+                failed: replace(failed),
+                error: replaceError(error),
+                ...timestamps,
+            }),
+            onInvalid: (current, candidate, issues) => ({
+                version: VIEW_STATE_JSON_VERSION,
+                type: 'invalid',
+                current: replace(current),
+                candidate: replace(candidate),
+                issues,
+                ...timestamps,
+            }),
+        });
+    }
+
     /**
      * Converts the current state into a string representation.
      *
      * @return {string} A string describing the state: "Initial" if in the initial state, "Success: <value>" if the state is successful, "Loading" if in the
-     * loading state, or "Failure: <error>" if the state is a failure.
+     * loading state, followed by " (<progress>)" if it reports a progress, "Failure: <error>" if the state is a failure, or "Invalid: <current> ->
+     * <candidate> (<issues>)" if the state is invalid.
      */
     toString(): string {
         if (EditableViewState.isInitial(this.editableViewState)) {
@@ -334,7 +1209,8 @@ export class EditableViewState<Value> {
         }
 
         if (EditableViewState.isLoading(this.editableViewState)) {
-            return `Loading: ${this.editableViewState.current} -> ${this.editableViewState.target}`;
+            const progress = this.editableViewState.progress;
+            return `Loading: ${this.editableViewState.current} -> ${this.editableViewState.target}${progress !== null ? ` (${progress})` : ''}`;
         }
 
         if (EditableViewState.isSuccess(this.editableViewState)) {
@@ -345,6 +1221,21 @@ export class EditableViewState<Value> {
             return `Failure: ${this.editableViewState.current} -> ${this.editableViewState.failed}`;
         }
 
+        if (EditableViewState.isInvalid(this.editableViewState)) {
+            const issues = this.editableViewState.issues.map((issue) => issue.message).join(', ');
+            return `Invalid: ${this.editableViewState.current} -> ${this.editableViewState.candidate} (${issues})`;
+        }
+
         throw new Error('unreachable state');
     }
 }
+
+function issuesEqual(issues: readonly ValidationIssue[], other: readonly ValidationIssue[]): boolean {
+    return (
+        issues.length === other.length &&
+        issues.every((issue, index) => {
+            const otherIssue = other[index];
+            return otherIssue !== undefined && issue.message === otherIssue.message && issue.path === otherIssue.path && issue.code === otherIssue.code;
+        })
+    );
+}
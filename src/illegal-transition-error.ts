@@ -0,0 +1,21 @@
+/**
+ * Represents a transition that the lifecycle of a view state does not allow, such as succeeding a save that was never started.
+ */
+export class IllegalTransitionError extends Error {
+    /**
+     * Creates an error describing the given transition.
+     *
+     * @param {string} from - The status of the state the transition was attempted from.
+     * @param {string} transition - The name of the attempted transition.
+     * @param {string} message - The message of the error.
+     */
+    constructor(
+        public readonly from: string,
+        public readonly transition: string,
+        message: string = `cannot ${transition} from the ${from} state`,
+    ) {
+        super(message);
+        this.name = 'IllegalTransitionError';
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
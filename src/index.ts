@@ -1,2 +1,23 @@
 export * from './loadable-view-state';
 export * from './editable-view-state';
+export * from './loadable-view-state-loader';
+export * from './to-error';
+export * from './view-state-store';
+export { deserializeError, serializeError, VIEW_STATE_JSON_VERSION } from './view-state-json';
+export type { SerializedError } from './view-state-json';
+export * from './aggregate-view-state-error';
+export * from './editable-view-state-controller';
+export * from './loading-progress';
+export * from './clock';
+export * from './retry-attempt';
+export * from './retry-policy';
+export * from './paged-view-state';
+export * from './editable-form-view-state';
+export * from './validation';
+export * from './editable-view-state-autosaver';
+export * from './illegal-transition-error';
+export * from './editable-view-state-history';
+export * from './view-state-transition-logger';
+export * from './view-state-devtools';
+export * from './loadable-view-state-cache';
+export type { ViewStateTimestamps } from './view-state-timestamps';
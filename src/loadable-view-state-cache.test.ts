@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { FakeClock } from './test-support/fake-clock';
+import { LoadableViewState } from './loadable-view-state';
+import { LoadableViewStateCache } from './loadable-view-state-cache';
+
+describe('LoadableViewStateCache', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const givenAStandInFetcher = () => {
+        const requests: { key: string; signal: AbortSignal; resolve: (value: string) => void; reject: (reason: unknown) => void }[] = [];
+        const fetcher = jest.fn(
+            (key: string, signal: AbortSignal) => new Promise<string>((resolve, reject) => requests.push({ key, signal, resolve, reject })),
+        );
+        return { fetcher, requests };
+    };
+
+    const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    const listener = jest.fn<(state: LoadableViewState<string>, previousState: LoadableViewState<string>) => void>();
+    const emittedStates = () => listener.mock.calls.map(([state]) => state);
+
+    const givenACache = (options: { staleTime?: number; gcTime?: number } = {}) => {
+        const clock = new FakeClock();
+        const { fetcher, requests } = givenAStandInFetcher();
+        const cache = new LoadableViewStateCache(fetcher, { ...options, clock });
+        return { cache, fetcher, requests, clock };
+    };
+
+    describe('subscribe', () => {
+        test('given concurrent subscribers to the same key when subscribing then a single request is shared by all of them', async () => {
+            const { cache, fetcher, requests, clock } = givenACache();
+            const otherListener = jest.fn<(state: LoadableViewState<string>) => void>();
+
+            cache.subscribe('ada', listener);
+            cache.subscribe('ada', otherListener);
+            requests[0]?.resolve('Ada Lovelace');
+            await flushPromises();
+
+            expect(fetcher).toBeCalledTimes(1);
+            expect(emittedStates()).toEqual([LoadableViewState.loading(undefined, clock), LoadableViewState.success('Ada Lovelace', clock)]);
+            expect(otherListener).toBeCalledWith(LoadableViewState.success('Ada Lovelace', clock), LoadableViewState.loading(undefined, clock));
+            expect(cache.get('ada').loadedAt).toBe(0);
+        });
+
+        test('given different keys when subscribing then every key is loaded on its own', () => {
+            const { cache, requests } = givenACache();
+
+            cache.subscribe('ada', listener);
+            cache.subscribe('grace', listener);
+
+            expect(requests.map((request) => request.key)).toEqual(['ada', 'grace']);
+        });
+
+        test.each([
+            [999, 1],
+            [1001, 2],
+        ])(
+            'given a value loaded %p ms ago with a stale time of 1000 when subscribing then the value is requested %p times',
+            async (elapsed, expectedRequests) => {
+                const { cache, fetcher, requests, clock } = givenACache({ staleTime: 1000 });
+                cache.subscribe('ada', listener);
+                requests[0]?.resolve('Ada Lovelace');
+                await flushPromises();
+
+                clock.advance(elapsed);
+                cache.subscribe('ada', listener);
+
+                expect(fetcher).toBeCalledTimes(expectedRequests);
+            },
+        );
+
+        test('given a failing request when subscribing then a failure state is emitted', async () => {
+            const { cache, requests, clock } = givenACache();
+
+            cache.subscribe('ada', listener);
+            requests[0]?.reject('offline');
+            await flushPromises();
+
+            expect(cache.get('ada')).toEqual(LoadableViewState.failure(Error('offline'), clock));
+        });
+    });
+
+    describe('garbage collection', () => {
+        test('given an entry without subscribers when the removal time elapses then it is removed and its request aborted', () => {
+            const { cache, requests, clock } = givenACache({ gcTime: 1000 });
+            const unsubscribe = cache.subscribe('ada', listener);
+
+            unsubscribe();
+            clock.advance(1000);
+
+            expect(requests[0]?.signal.aborted).toBe(true);
+            expect(cache.get('ada')).toEqual(LoadableViewState.initial());
+        });
+
+        test('given an entry subscribed to again before the removal time elapses when it elapses then the entry is kept', async () => {
+            const { cache, fetcher, requests, clock } = givenACache({ gcTime: 1000, staleTime: 5000 });
+            cache.subscribe('ada', listener)();
+            requests[0]?.resolve('Ada Lovelace');
+            await flushPromises();
+
+            clock.advance(500);
+            cache.subscribe('ada', listener);
+            clock.advance(1000);
+
+            expect(cache.get('ada').getOrNull()).toBe('Ada Lovelace');
+            expect(fetcher).toBeCalledTimes(1);
+        });
+    });
+
+    describe('invalidate', () => {
+        test('given a subscribed key when invalidating it then its value is loaded again keeping the cached one', async () => {
+            const { cache, requests, clock } = givenACache({ staleTime: 5000 });
+            cache.subscribe('ada', listener);
+            requests[0]?.resolve('Ada Lovelace');
+            await flushPromises();
+
+            cache.invalidate('ada');
+            requests[1]?.resolve('Ada King');
+            await flushPromises();
+
+            expect(requests).toHaveLength(2);
+            expect(emittedStates().slice(2)).toEqual([
+                LoadableViewState.success('Ada Lovelace', clock).refresh(clock),
+                LoadableViewState.success('Ada King', clock),
+            ]);
+        });
+
+        test('given a load in progress when invalidating its key then it is aborted and superseded by a new one', async () => {
+            const { cache, requests } = givenACache();
+            cache.subscribe('ada', listener);
+
+            cache.invalidate('ada');
+            requests[0]?.resolve('outdated');
+            requests[1]?.resolve('Ada Lovelace');
+            await flushPromises();
+
+            expect(requests[0]?.signal.aborted).toBe(true);
+            expect(cache.get('ada').getOrNull()).toBe('Ada Lovelace');
+        });
+
+        test('given keys without subscribers when invalidating them with a predicate then they are loaded again by their next subscriber only', async () => {
+            const { cache, fetcher } = givenACache({ staleTime: 5000 });
+            cache.setData('ada', 'Ada Lovelace');
+            cache.setData('grace', 'Grace Hopper');
+
+            cache.invalidate((key) => key.startsWith('a'));
+            expect(fetcher).not.toBeCalled();
+
+            cache.subscribe('ada', listener);
+            cache.subscribe('grace', listener);
+
+            expect(fetcher.mock.calls.map(([key]) => key)).toEqual(['ada']);
+        });
+    });
+
+    describe('setData', () => {
+        test('given a load in progress when setting the value of its key then it is aborted and the value is fresh', async () => {
+            const { cache, fetcher, requests } = givenACache({ staleTime: 5000 });
+            cache.subscribe('ada', listener);
+
+            cache.setData('ada', 'Ada King');
+            requests[0]?.resolve('outdated');
+            await flushPromises();
+            cache.subscribe('ada', listener);
+
+            expect(requests[0]?.signal.aborted).toBe(true);
+            expect(cache.get('ada').getOrNull()).toBe('Ada King');
+            expect(fetcher).toBeCalledTimes(1);
+        });
+    });
+
+    describe('load', () => {
+        test('given a load in progress when loading the same key then the load in progress is shared', async () => {
+            const { cache, fetcher, requests, clock } = givenACache();
+
+            const firstLoad = cache.load('ada');
+            const secondLoad = cache.load('ada');
+            requests[0]?.resolve('Ada Lovelace');
+
+            expect(secondLoad).toBe(firstLoad);
+            expect(await firstLoad).toEqual(LoadableViewState.success('Ada Lovelace', clock));
+            expect(fetcher).toBeCalledTimes(1);
+        });
+
+        test('given a listener loading the key when the loading state is emitted then the load in progress is shared', async () => {
+            const { cache, fetcher, requests } = givenACache();
+            const loads: Promise<LoadableViewState<string>>[] = [];
+            cache.subscribe('ada', (state) => {
+                if (state.isLoading) loads.push(cache.load('ada'));
+            });
+
+            requests[0]?.resolve('Ada Lovelace');
+            await flushPromises();
+
+            expect(fetcher).toBeCalledTimes(1);
+            expect(loads).toHaveLength(1);
+            expect((await loads[0])?.getOrNull()).toBe('Ada Lovelace');
+        });
+
+        test('given a fetcher throwing synchronously when loading then a failure state is emitted and the next load requests the value again', async () => {
+            const error = Error('fetcher error');
+            const fetcher = jest
+                .fn<(key: string, signal: AbortSignal) => Promise<string>>()
+                .mockImplementationOnce(() => {
+                    throw error;
+                })
+                .mockResolvedValueOnce('Ada Lovelace');
+            const clock = new FakeClock();
+            const cache = new LoadableViewStateCache(fetcher, { clock });
+
+            const failure = await cache.load('ada');
+            const success = await cache.load('ada');
+
+            expect(failure).toEqual(LoadableViewState.failure(error, clock));
+            expect(success).toEqual(LoadableViewState.success('Ada Lovelace', clock));
+            expect(fetcher).toBeCalledTimes(2);
+        });
+
+        test('given a listener throwing on the loading state when subscribing then the error is reported and the value is still loaded', async () => {
+            const error = Error('listener error');
+            const onLoadError = jest.fn<(error: unknown) => void>();
+            const { fetcher, requests } = givenAStandInFetcher();
+            const clock = new FakeClock();
+            const cache = new LoadableViewStateCache(fetcher, { clock, onLoadError });
+
+            const unsubscribe = cache.subscribe('ada', (state) => {
+                if (state.isLoading) throw error;
+            });
+            requests[0]?.resolve('Ada Lovelace');
+            await flushPromises();
+
+            expect(onLoadError).toBeCalledWith(error);
+            expect(cache.get('ada').getOrNull()).toBe('Ada Lovelace');
+
+            unsubscribe();
+            clock.advance(300000);
+
+            expect(cache.get('ada')).toEqual(LoadableViewState.initial());
+        });
+
+        test('given a listener throwing when a load started by a subscription settles then the error is reported', async () => {
+            const error = Error('listener error');
+            const onLoadError = jest.fn<(error: unknown) => void>();
+            const { fetcher, requests } = givenAStandInFetcher();
+            const cache = new LoadableViewStateCache(fetcher, { clock: new FakeClock(), onLoadError });
+            cache.subscribe('ada', (state) => {
+                if (state.isSuccess) throw error;
+            });
+
+            requests[0]?.resolve('Ada Lovelace');
+            await flushPromises();
+
+            expect(onLoadError).toBeCalledWith(error);
+        });
+    });
+});
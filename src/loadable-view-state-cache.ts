@@ -0,0 +1,251 @@
+import { Clock, systemClock } from './clock';
+import { LoadableViewState } from './loadable-view-state';
+import { toError } from './to-error';
+import { ViewStateStore } from './view-state-store';
+
+/**
+ * The options of a LoadableViewStateCache.
+ *
+ * @template Key The type of the keys of the cached values.
+ */
+export interface LoadableViewStateCacheOptions<Key> {
+    /** The time in milliseconds after which a loaded value is stale, so a new subscriber loads it again. Defaults to 0. */
+    readonly staleTime?: number;
+
+    /** The time in milliseconds an entry without subscribers is kept before being removed. Defaults to 300000, five minutes. */
+    readonly gcTime?: number;
+
+    /** The function converting a key into the string identifying its entry. Defaults to `JSON.stringify`. */
+    readonly hashKey?: (key: Key) => string;
+
+    /** The clock used to timestamp the loaded values and to wait before removing the unused entries. Defaults to the system clock. */
+    readonly clock?: Clock;
+
+    /** The function reporting an error of a load started by a subscription or an invalidation, such as one thrown by a listener. Defaults to console.error. */
+    readonly onLoadError?: (error: unknown) => void;
+}
+
+interface CacheEntry<Key, Value> {
+    readonly key: Key;
+    readonly hash: string;
+    readonly store: ViewStateStore<LoadableViewState<Value>>;
+    subscribers: number;
+    isInvalidated: boolean;
+    runningLoad: Promise<LoadableViewState<Value>> | null;
+    abortController: AbortController | null;
+    cancelRemoval: (() => void) | null;
+}
+
+/**
+ * Caches a LoadableViewState per key, such as per entity id, so the components showing the same entity share a single state and a single request.
+ *
+ * Subscribing to a key loads its value unless it is fresh, and concurrent subscribers to the same key share the load in progress. A loaded value is fresh
+ * for `staleTime` milliseconds, and an entry without subscribers is removed after `gcTime` milliseconds. Entries can be invalidated to be loaded again, or
+ * set directly, such as after an optimistic write.
+ *
+ * @template Key The type of the keys of the cached values.
+ * @template Value The type of the cached values.
+ */
+export class LoadableViewStateCache<Key, Value> {
+    private readonly entries = new Map<string, CacheEntry<Key, Value>>();
+    private readonly staleTime: number;
+    private readonly gcTime: number;
+    private readonly hashKey: (key: Key) => string;
+    private readonly clock: Clock;
+    private readonly onLoadError: (error: unknown) => void;
+
+    /**
+     * Creates an empty cache.
+     *
+     * @template Key, Value
+     * @param {(Key, AbortSignal) => Promise<Value>} fetcher - The asynchronous function that loads the value of a key. It receives a signal that is aborted
+     * when the load is superseded by an invalidation or a written value, or when its entry is removed.
+     * @param {LoadableViewStateCacheOptions<Key>} options - The stale time, the removal time, the key hashing, and the clock of the cache.
+     */
+    constructor(
+        private readonly fetcher: (key: Key, signal: AbortSignal) => Promise<Value>,
+        options: LoadableViewStateCacheOptions<Key> = {},
+    ) {
+        this.staleTime = options.staleTime ?? 0;
+        this.gcTime = options.gcTime ?? 300000;
+        this.hashKey = options.hashKey ?? ((key) => JSON.stringify(key));
+        this.clock = options.clock ?? systemClock;
+        this.onLoadError = options.onLoadError ?? ((error: unknown) => console.error(error));
+    }
+
+    /**
+     * Returns the state of the given key, or the initial state if it is not cached.
+     *
+     * @template Key, Value
+     * @param {Key} key - The key of the value.
+     * @return {LoadableViewState<Value>} The state of the key.
+     */
+    get(key: Key): LoadableViewState<Value> {
+        return this.entries.get(this.hashKey(key))?.store.get() ?? LoadableViewState.initial();
+    }
+
+    /**
+     * Registers the given listener to be notified every time the state of the given key changes, and loads its value unless it is fresh or already being
+     * loaded. Once the last listener of a key is unregistered, its entry is removed after the removal time unless it is subscribed to again.
+     *
+     * @template Key, Value
+     * @param {Key} key - The key of the value.
+     * @param {(LoadableViewState<Value>, LoadableViewState<Value>) => void} listener - The callback function to be executed with the new and the previous
+     * state.
+     * @return {() => void} A function that unregisters the listener.
+     */
+    subscribe(key: Key, listener: (state: LoadableViewState<Value>, previousState: LoadableViewState<Value>) => void): () => void {
+        const entry = this.entryOf(key);
+        entry.subscribers += 1;
+        entry.cancelRemoval?.();
+        entry.cancelRemoval = null;
+        const unsubscribe = entry.store.subscribe(listener);
+        if (entry.runningLoad === null && this.isStale(entry)) this.loadInBackground(key);
+
+        let isSubscribed = true;
+        return () => {
+            if (!isSubscribed) return;
+            isSubscribed = false;
+            unsubscribe();
+            entry.subscribers -= 1;
+            if (entry.subscribers === 0) this.scheduleRemoval(entry);
+        };
+    }
+
+    /**
+     * Loads the value of the given key, emitting a loading state that keeps the cached value, if any, and then a success or a failure state. If the key is
+     * already being loaded, including when called by a listener notified of the loading state, the load in progress is shared instead of starting a new
+     * one. The value is requested once the loading state is emitted, and an error thrown by a listener rejects the returned promise. Rejections that are not
+     * an Error are converted into one.
+     *
+     * @template Key, Value
+     * @param {Key} key - The key of the value.
+     * @return {Promise<LoadableViewState<Value>>} The state after the load settles, or the latest state if the load was superseded or its entry removed.
+     */
+    load(key: Key): Promise<LoadableViewState<Value>> {
+        const entry = this.entryOf(key);
+        return entry.runningLoad ?? this.loadEntry(entry);
+    }
+
+    /**
+     * Marks the given key, or every key matching the given predicate, as stale. The subscribed keys are loaded again right away, aborting their load in
+     * progress, if any; the others are loaded again by their next subscriber.
+     *
+     * @template Key
+     * @param {Key | ((Key) => boolean)} keyOrPredicate - The key to invalidate, or a function returning true for the keys to invalidate.
+     */
+    invalidate(keyOrPredicate: Key | ((key: Key) => boolean)): void {
+        const matches =
+            typeof keyOrPredicate === 'function'
+                ? (keyOrPredicate as (key: Key) => boolean)
+                : (key: Key) => this.hashKey(key) === this.hashKey(keyOrPredicate as Key);
+        Array.from(this.entries.values())
+            .filter((entry) => matches(entry.key))
+            .forEach((entry) => {
+                entry.isInvalidated = true;
+                if (entry.subscribers === 0) return;
+                this.abort(entry);
+                this.loadInBackground(entry.key);
+            });
+    }
+
+    /**
+     * Sets the value of the given key as a success state, such as after an optimistic write, aborting its load in progress, if any. The value is fresh for
+     * the stale time.
+     *
+     * @template Key, Value
+     * @param {Key} key - The key of the value.
+     * @param {Value} value - The value to cache.
+     */
+    setData(key: Key, value: Value): void {
+        const entry = this.entryOf(key);
+        this.abort(entry);
+        entry.isInvalidated = false;
+        entry.store.set(LoadableViewState.success(value, this.clock));
+    }
+
+    private entryOf(key: Key): CacheEntry<Key, Value> {
+        const hash = this.hashKey(key);
+        const cachedEntry = this.entries.get(hash);
+        if (cachedEntry !== undefined) return cachedEntry;
+
+        const entry: CacheEntry<Key, Value> = {
+            key,
+            hash,
+            store: new ViewStateStore(LoadableViewState.initial<Value>()),
+            subscribers: 0,
+            isInvalidated: false,
+            runningLoad: null,
+            abortController: null,
+            cancelRemoval: null,
+        };
+        this.entries.set(hash, entry);
+        this.scheduleRemoval(entry);
+        return entry;
+    }
+
+    private isStale(entry: CacheEntry<Key, Value>): boolean {
+        return entry.isInvalidated || entry.store.get().isStale(this.staleTime, this.clock.now());
+    }
+
+    private loadInBackground(key: Key) {
+        this.load(key).catch(this.onLoadError);
+    }
+
+    private loadEntry(entry: CacheEntry<Key, Value>): Promise<LoadableViewState<Value>> {
+        const abortController = new AbortController();
+        entry.abortController = abortController;
+        entry.isInvalidated = false;
+
+        const loadingViewState = entry.store.get().refresh(this.clock);
+        let fetchEntry: () => void = () => {};
+        const runningLoad = new Promise<LoadableViewState<Value>>((resolve) => {
+            fetchEntry = () => resolve(this.settleEntry(entry, loadingViewState, abortController));
+        });
+        entry.runningLoad = runningLoad;
+        try {
+            entry.store.set(loadingViewState);
+            return runningLoad;
+        } catch (error) {
+            return Promise.reject(error);
+        } finally {
+            fetchEntry();
+        }
+    }
+
+    private async settleEntry(
+        entry: CacheEntry<Key, Value>,
+        loadingViewState: LoadableViewState<Value>,
+        abortController: AbortController,
+    ): Promise<LoadableViewState<Value>> {
+        if (abortController.signal.aborted) return entry.store.get();
+
+        let settledViewState: LoadableViewState<Value>;
+        try {
+            settledViewState = LoadableViewState.success(await this.fetcher(entry.key, abortController.signal), this.clock);
+        } catch (error) {
+            settledViewState = loadingViewState.fail(toError(error), this.clock);
+        }
+
+        if (abortController.signal.aborted) return entry.store.get();
+        entry.abortController = null;
+        entry.runningLoad = null;
+        entry.store.set(settledViewState);
+        return settledViewState;
+    }
+
+    private abort(entry: CacheEntry<Key, Value>) {
+        entry.abortController?.abort();
+        entry.abortController = null;
+        entry.runningLoad = null;
+    }
+
+    private scheduleRemoval(entry: CacheEntry<Key, Value>) {
+        entry.cancelRemoval?.();
+        entry.cancelRemoval = this.clock.schedule(() => {
+            entry.cancelRemoval = null;
+            this.abort(entry);
+            this.entries.delete(entry.hash);
+        }, this.gcTime);
+    }
+}
@@ -0,0 +1,218 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { LoadableViewState } from './loadable-view-state';
+import { LoadableViewStateLoader } from './loadable-view-state-loader';
+import { FakeClock } from './test-support/fake-clock';
+import { RetryAttempt } from './retry-attempt';
+import { RetryPolicy } from './retry-policy';
+
+describe('LoadableViewStateLoader', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const givenADeferred = () => {
+        let resolve: (value: string) => void = () => {};
+        let reject: (reason: unknown) => void = () => {};
+        const promise = new Promise<string>((promiseResolve, promiseReject) => {
+            resolve = promiseResolve;
+            reject = promiseReject;
+        });
+        return { promise, resolve, reject };
+    };
+
+    const clock = new FakeClock(1000);
+    const onStateChange = jest.fn<(viewState: LoadableViewState<string>) => void>();
+
+    const givenALoader = (fetcher: (signal: AbortSignal) => Promise<string>) => new LoadableViewStateLoader(fetcher, onStateChange, { clock });
+
+    const thenTheEmittedStatesAre = (...viewStates: LoadableViewState<string>[]) => {
+        expect(onStateChange.mock.calls.map(([viewState]) => viewState)).toEqual(viewStates);
+    };
+
+    test('given a new loader when getting the state then the initial state is retrieved', () => {
+        const loader = givenALoader(() => Promise.resolve('value'));
+        expect(loader.state).toEqual(LoadableViewState.initial());
+        expect(loader.isRunning).toBeFalsy();
+    });
+
+    test('given a resolving fetcher when loading then the loading and success states are emitted', async () => {
+        const loader = givenALoader(() => Promise.resolve('value'));
+
+        const viewState = await loader.load();
+
+        expect(viewState).toEqual(LoadableViewState.success('value', clock));
+        thenTheEmittedStatesAre(LoadableViewState.loading(undefined, clock), LoadableViewState.success('value', clock));
+    });
+
+    test('given a rejecting fetcher when loading then the loading and failure states are emitted', async () => {
+        const error = Error('error');
+        const loader = givenALoader(() => Promise.reject(error));
+
+        const viewState = await loader.load();
+
+        expect(viewState.errorOrNull()).toBe(error);
+        thenTheEmittedStatesAre(LoadableViewState.loading(undefined, clock), LoadableViewState.failure(error, clock));
+    });
+
+    test('given a fetcher rejecting with a non error when loading then the rejection is converted into an error', async () => {
+        const loader = givenALoader(() => Promise.reject('reason'));
+
+        const viewState = await loader.load();
+
+        expect(viewState.errorOrNull()).toBeInstanceOf(Error);
+        expect(viewState.errorOrNull()?.message).toBe('reason');
+    });
+
+    test('given a loaded value when loading again then the refreshing and failure states keep the loaded value and the time it was loaded', async () => {
+        const error = Error('error');
+        const fetcher = jest.fn<() => Promise<string>>().mockResolvedValueOnce('value').mockRejectedValueOnce(error);
+        const loader = givenALoader(fetcher);
+        await loader.load();
+
+        await loader.load();
+
+        const refreshingViewState = LoadableViewState.success('value', clock).refresh(clock);
+        thenTheEmittedStatesAre(
+            LoadableViewState.loading(undefined, clock),
+            LoadableViewState.success('value', clock),
+            refreshingViewState,
+            refreshingViewState.fail(error, clock),
+        );
+        expect(loader.state.loadedAt).toBe(1000);
+    });
+
+    test('given a load in progress when loading again then only the latest load settles the state', async () => {
+        const first = givenADeferred();
+        const second = givenADeferred();
+        const fetcher = jest.fn<(signal: AbortSignal) => Promise<string>>().mockReturnValueOnce(first.promise).mockReturnValueOnce(second.promise);
+        const loader = givenALoader(fetcher);
+
+        const firstLoad = loader.load();
+        const secondLoad = loader.load();
+        second.resolve('second');
+        first.resolve('first');
+        await Promise.all([firstLoad, secondLoad]);
+
+        expect(fetcher.mock.calls[0]?.[0].aborted).toBeTruthy();
+        expect(loader.state).toEqual(LoadableViewState.success('second', clock));
+        thenTheEmittedStatesAre(
+            LoadableViewState.loading(undefined, clock),
+            LoadableViewState.loading(undefined, clock),
+            LoadableViewState.success('second', clock),
+        );
+    });
+
+    test('given a load in progress when cancelling then the fetcher is aborted and the previous state is emitted', async () => {
+        const deferred = givenADeferred();
+        const fetcher = jest.fn<(signal: AbortSignal) => Promise<string>>().mockReturnValueOnce(Promise.resolve('value')).mockReturnValueOnce(deferred.promise);
+        const loader = givenALoader(fetcher);
+        await loader.load();
+
+        const load = loader.load();
+        loader.cancel();
+        deferred.reject(Error('aborted'));
+        await load;
+
+        expect(fetcher.mock.calls[1]?.[0].aborted).toBeTruthy();
+        expect(loader.state).toEqual(LoadableViewState.success('value', clock));
+        expect(loader.isRunning).toBeFalsy();
+    });
+
+    test('given no load in progress when cancelling then no state is emitted', () => {
+        const loader = givenALoader(() => Promise.resolve('value'));
+        loader.cancel();
+        expect(onStateChange).not.toBeCalled();
+    });
+
+    test('given a load in progress when resetting then the initial state is emitted', async () => {
+        const deferred = givenADeferred();
+        const loader = givenALoader(() => deferred.promise);
+
+        const load = loader.load();
+        loader.reset();
+        deferred.resolve('value');
+        await load;
+
+        expect(loader.state).toEqual(LoadableViewState.initial());
+        thenTheEmittedStatesAre(LoadableViewState.loading(undefined, clock), LoadableViewState.initial());
+    });
+
+    describe('retry', () => {
+        const now = 1000;
+        const error = Error('error');
+
+        const givenARetryingLoader = (fetcher: (signal: AbortSignal) => Promise<string>, retryPolicy: RetryPolicy, clock: FakeClock = new FakeClock(now)) =>
+            new LoadableViewStateLoader(fetcher, onStateChange, { retryPolicy, clock });
+
+        const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+        const retriedAt = new FakeClock(now + 500);
+
+        test('given a fetcher failing once when loading with a retry policy then the failed attempt is retried', async () => {
+            const clock = new FakeClock(now);
+            const fetcher = jest.fn<() => Promise<string>>().mockRejectedValueOnce(error).mockResolvedValueOnce('value');
+            const loader = givenARetryingLoader(fetcher, RetryPolicy.fixed(500, 3), clock);
+
+            const load = loader.load();
+            await flushPromises();
+            clock.advance(500);
+            const viewState = await load;
+
+            expect(viewState).toEqual(LoadableViewState.success('value', retriedAt));
+            thenTheEmittedStatesAre(
+                LoadableViewState.loading(undefined, new FakeClock(now)),
+                LoadableViewState.failure<string>(error, new FakeClock(now)).withRetry(new RetryAttempt(1, 3, now + 500)),
+                LoadableViewState.loading<string>(undefined, retriedAt).withRetry(new RetryAttempt(2, 3)),
+                LoadableViewState.success('value', retriedAt),
+            );
+        });
+
+        test('given an always failing fetcher when loading with a retry policy then the final failure keeps the last attempt', async () => {
+            const clock = new FakeClock(now);
+            const fetcher = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+            const loader = givenARetryingLoader(fetcher, RetryPolicy.fixed(500, 2), clock);
+
+            const load = loader.load();
+            await flushPromises();
+            clock.advance(500);
+            const viewState = await load;
+
+            expect(fetcher).toBeCalledTimes(2);
+            expect(viewState).toEqual(LoadableViewState.failure<string>(error, retriedAt).withRetry(new RetryAttempt(2, 2)));
+            thenTheEmittedStatesAre(
+                LoadableViewState.loading(undefined, new FakeClock(now)),
+                LoadableViewState.failure<string>(error, new FakeClock(now)).withRetry(new RetryAttempt(1, 2, now + 500)),
+                LoadableViewState.loading<string>(undefined, retriedAt).withRetry(new RetryAttempt(2, 2)),
+                LoadableViewState.failure<string>(error, retriedAt).withRetry(new RetryAttempt(2, 2)),
+            );
+        });
+
+        test('given an error rejected by the retry policy when loading then the failed attempt is not retried', async () => {
+            const fetcher = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+            const loader = givenARetryingLoader(
+                fetcher,
+                RetryPolicy.fixed(500, 3).retryIf(() => false),
+            );
+
+            await loader.load();
+
+            expect(fetcher).toBeCalledTimes(1);
+            thenTheEmittedStatesAre(LoadableViewState.loading(undefined, new FakeClock(now)), LoadableViewState.failure(error, new FakeClock(now)));
+        });
+
+        test('given a loader waiting to retry when cancelling then the retry is cancelled and the previous state is emitted', async () => {
+            const clock = new FakeClock(now);
+            const fetcher = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+            const loader = givenARetryingLoader(fetcher, RetryPolicy.fixed(500, 3), clock);
+
+            const load = loader.load();
+            await flushPromises();
+            loader.cancel();
+            await load;
+
+            expect(clock.pendingTimers).toBe(0);
+            expect(fetcher).toBeCalledTimes(1);
+            expect(loader.state).toEqual(LoadableViewState.initial());
+            expect(loader.isRunning).toBeFalsy();
+        });
+    });
+});
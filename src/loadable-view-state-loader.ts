@@ -0,0 +1,158 @@
+import { Clock, systemClock } from './clock';
+import { LoadableViewState } from './loadable-view-state';
+import { RetryAttempt } from './retry-attempt';
+import { RetryPolicy } from './retry-policy';
+import { toError } from './to-error';
+
+/**
+ * The options of a LoadableViewStateLoader.
+ */
+export interface LoadableViewStateLoaderOptions {
+    /** The policy deciding whether a failed load is retried. Defaults to never retrying. */
+    readonly retryPolicy?: RetryPolicy;
+
+    /** The clock used to wait before retrying and to record the times of the states. Defaults to the system clock. */
+    readonly clock?: Clock;
+}
+
+/**
+ * Runs an asynchronous function and drives a LoadableViewState through its initial, loading, success, and failure states, emitting every state to the
+ * given callback.
+ *
+ * Every call to `load` aborts the one in progress, so only the latest call can settle the state. A failed load is retried according to the given retry
+ * policy, and the states of a retried load describe its attempt.
+ *
+ * @template Value The type of the data loaded by this instance.
+ */
+export class LoadableViewStateLoader<Value> {
+    private viewState: LoadableViewState<Value> = LoadableViewState.initial();
+    private viewStateBeforeLoading: LoadableViewState<Value> = this.viewState;
+    private abortController: AbortController | null = null;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly clock: Clock;
+
+    /**
+     * Creates a loader in the initial state.
+     *
+     * @template Value
+     * @param {(AbortSignal) => Promise<Value>} fetcher - The asynchronous function that loads the value. It receives a signal that is aborted when the load
+     * is superseded or cancelled.
+     * @param {(LoadableViewState<Value>) => void} onStateChange - The callback function to be executed every time the state changes.
+     * @param {LoadableViewStateLoaderOptions} options - The retry policy and the clock of the loader.
+     */
+    constructor(
+        private readonly fetcher: (signal: AbortSignal) => Promise<Value>,
+        private readonly onStateChange: (viewState: LoadableViewState<Value>) => void,
+        options: LoadableViewStateLoaderOptions = {},
+    ) {
+        this.retryPolicy = options.retryPolicy ?? RetryPolicy.none();
+        this.clock = options.clock ?? systemClock;
+    }
+
+    /**
+     * Returns the latest emitted state.
+     *
+     * @return {LoadableViewState<Value>} The latest emitted state.
+     */
+    get state(): LoadableViewState<Value> {
+        return this.viewState;
+    }
+
+    /**
+     * Returns true if a load is in progress.
+     *
+     * @return {boolean} True if a load is in progress.
+     */
+    get isRunning(): boolean {
+        return this.abortController !== null;
+    }
+
+    /**
+     * Aborts the load in progress, if any, and starts a new one. Emits a loading state and then a success or a failure state, unless the load is superseded
+     * or cancelled before it settles. Rejections that are not an Error are converted into one.
+     *
+     * If a value was already loaded, the loading and failure states keep it, so it can still be shown while the value is loaded again.
+     *
+     * If the retry policy retries a failed attempt, a failure state with the time of the next attempt is emitted, then a loading state with the number of
+     * the next attempt once the delay elapses. The final failure of a retried load keeps the number of its last attempt.
+     *
+     * @return {Promise<LoadableViewState<Value>>} The state after the load settles, or the latest state if the load was superseded or cancelled.
+     */
+    async load(): Promise<LoadableViewState<Value>> {
+        if (this.abortController === null) this.viewStateBeforeLoading = this.viewState;
+        this.abortController?.abort();
+        const abortController = new AbortController();
+        this.abortController = abortController;
+
+        let loadingViewState = this.viewState.refresh(this.clock);
+        this.emit(loadingViewState);
+
+        for (let attempt = 1; ; attempt++) {
+            let settledViewState: LoadableViewState<Value>;
+            try {
+                settledViewState = LoadableViewState.success(await this.fetcher(abortController.signal), this.clock);
+            } catch (error) {
+                settledViewState = loadingViewState.fail(toError(error), this.clock);
+            }
+
+            if (abortController.signal.aborted) return this.viewState;
+
+            const error = settledViewState.errorOrNull();
+            const delay = error !== null ? this.retryPolicy.delayOrNull(attempt, error) : null;
+            if (delay === null) {
+                if (error !== null && attempt > 1) settledViewState = settledViewState.withRetry(new RetryAttempt(attempt, this.retryPolicy.maxAttempts));
+                this.abortController = null;
+                this.emit(settledViewState);
+                return settledViewState;
+            }
+
+            this.emit(settledViewState.withRetry(new RetryAttempt(attempt, this.retryPolicy.maxAttempts, this.clock.now() + delay)));
+            await wait(this.clock, delay, abortController.signal);
+            if (abortController.signal.aborted) return this.viewState;
+
+            loadingViewState = this.viewState.refresh(this.clock).withRetry(new RetryAttempt(attempt + 1, this.retryPolicy.maxAttempts));
+            this.emit(loadingViewState);
+        }
+    }
+
+    /**
+     * Aborts the load in progress, if any, and emits the state that preceded it.
+     */
+    cancel(): void {
+        if (this.abortController === null) return;
+        this.abort();
+        this.emit(this.viewStateBeforeLoading);
+    }
+
+    /**
+     * Aborts the load in progress, if any, and emits the initial state.
+     */
+    reset(): void {
+        this.abort();
+        this.emit(LoadableViewState.initial());
+    }
+
+    private abort() {
+        this.abortController?.abort();
+        this.abortController = null;
+    }
+
+    private emit(viewState: LoadableViewState<Value>) {
+        this.viewState = viewState;
+        this.onStateChange(viewState);
+    }
+}
+
+function wait(clock: Clock, delay: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const onAbort = () => {
+            cancel();
+            resolve();
+        };
+        signal.addEventListener('abort', onAbort);
+        const cancel = clock.schedule(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, delay);
+    });
+}
@@ -1,5 +1,9 @@
 import { beforeEach, describe, expect, jest, test } from '@jest/globals';
 import { LoadableViewState } from './loadable-view-state';
+import { AggregateViewStateError } from './aggregate-view-state-error';
+import { Clock } from './clock';
+import { LoadingProgress } from './loading-progress';
+import { RetryAttempt } from './retry-attempt';
 import Mock = jest.Mock;
 
 describe('LoadableViewState', () => {
@@ -113,8 +117,12 @@ describe('LoadableViewState', () => {
             expect(successViewState.getOrThrow()).toBe('success');
         });
 
-        test.each(givenNonSuccessViewStates())('given %p when getting the value then an error is thrown', (viewState) => {
-            expect(() => viewState.getOrThrow()).toThrow();
+        test.each([
+            [LoadableViewState.initial<string>(), Error('no value to return from the initial state')],
+            [LoadableViewState.loading<string>(), Error('no value to return from the loading state')],
+            [LoadableViewState.failure<string>(Error('error')), Error('error')],
+        ])('given %p when getting the value then %p is thrown', (viewState, expectedError) => {
+            expect(() => viewState.getOrThrow()).toThrow(expectedError);
         });
     });
 
@@ -333,4 +341,675 @@ describe('LoadableViewState', () => {
             thenTheFailureActionIsNotExecuted();
         });
     });
+
+    describe('toJSON and fromJSON', () => {
+        const givenAllViewStates = (): LoadableViewState<string>[] => [
+            LoadableViewState.initial(),
+            LoadableViewState.loading(),
+            LoadableViewState.success(successValue),
+            LoadableViewState.failure(errorValue),
+        ];
+
+        test.each(givenAllViewStates())('given %p when stringifying and restoring then an equal view state is retrieved', (viewState) => {
+            const restoredViewState = LoadableViewState.fromJSON<string>(JSON.stringify(viewState));
+            expect(restoredViewState).toEqual(viewState);
+        });
+
+        test('given a failure view state when converting to json then the error is serialized', () => {
+            const error = Object.assign(new TypeError('invalid'), { code: 'E_INVALID' });
+            expect(LoadableViewState.failure(error).toJSON()).toEqual({
+                version: 1,
+                type: 'failure',
+                error: { name: 'TypeError', message: 'invalid', code: 'E_INVALID' },
+            });
+        });
+
+        test('given a replacer and a reviver when converting then the value is converted both ways', () => {
+            const date = new Date(0);
+            const json = LoadableViewState.success(date).toJSON((value) => value.toISOString());
+
+            const restoredViewState = LoadableViewState.fromJSON(JSON.parse(JSON.stringify(json)), (value) => new Date(value as string));
+
+            expect(json).toEqual({ version: 1, type: 'success', value: date.toISOString() });
+            expect(restoredViewState.getOrNull()).toEqual(date);
+        });
+
+        test.each([[{ version: 2, type: 'initial' }], [{ version: 1, type: 'unknown' }], [null]])('given %p when restoring then an error is thrown', (json) => {
+            expect(() => LoadableViewState.fromJSON(json)).toThrow();
+        });
+    });
+
+    describe('all', () => {
+        const otherError = Error('other error');
+
+        const givenMergedViewStates = (): [LoadableViewState<unknown>[], LoadableViewState<unknown[]>][] => [
+            [[LoadableViewState.success(1), LoadableViewState.success('two')], LoadableViewState.success([1, 'two'])],
+            [[LoadableViewState.success(1), LoadableViewState.initial()], LoadableViewState.initial()],
+            [[LoadableViewState.initial(), LoadableViewState.loading()], LoadableViewState.loading()],
+            [[LoadableViewState.loading(), LoadableViewState.failure(errorValue)], LoadableViewState.failure(errorValue)],
+            [[], LoadableViewState.success([])],
+        ];
+
+        test.each(givenMergedViewStates())('given %p when merging all then %p is retrieved', (viewStates, expectedViewState) => {
+            expect(LoadableViewState.all(viewStates)).toEqual(expectedViewState);
+        });
+
+        test('given several failure view states when merging all then all the errors are kept', () => {
+            const mergedViewState = LoadableViewState.all([LoadableViewState.failure(errorValue), LoadableViewState.failure(otherError)]);
+
+            const mergedError = mergedViewState.errorOrNull();
+            expect(mergedError).toBeInstanceOf(AggregateViewStateError);
+            expect((mergedError as AggregateViewStateError).errors).toEqual([errorValue, otherError]);
+        });
+    });
+
+    describe('combine', () => {
+        test('given a record of success view states when combining then the record of values is retrieved', () => {
+            const combinedViewState = LoadableViewState.combine({ count: LoadableViewState.success(1), name: LoadableViewState.success('name') });
+            expect(combinedViewState.getOrNull()).toEqual({ count: 1, name: 'name' });
+        });
+
+        test('given a record with a loading view state when combining then the loading state is retrieved', () => {
+            const combinedViewState = LoadableViewState.combine({ count: LoadableViewState.success(1), name: LoadableViewState.loading<string>() });
+            expect(combinedViewState.isLoading).toBeTruthy();
+        });
+    });
+
+    describe('any', () => {
+        const givenMergedViewStates = (): [LoadableViewState<string>[], LoadableViewState<string>][] => [
+            [
+                [LoadableViewState.failure(errorValue), LoadableViewState.success('first'), LoadableViewState.success('second')],
+                LoadableViewState.success('first'),
+            ],
+            [[LoadableViewState.failure(errorValue), LoadableViewState.loading()], LoadableViewState.loading()],
+            [[LoadableViewState.failure(errorValue), LoadableViewState.initial()], LoadableViewState.initial()],
+        ];
+
+        test.each(givenMergedViewStates())('given %p when merging any then %p is retrieved', (viewStates, expectedViewState) => {
+            expect(LoadableViewState.any(viewStates)).toEqual(expectedViewState);
+        });
+
+        test('given only failure view states when merging any then all the errors are kept', () => {
+            const mergedViewState = LoadableViewState.any([givenAFailureViewState()]);
+            expect((mergedViewState.errorOrNull() as AggregateViewStateError).errors).toEqual([errorValue]);
+        });
+    });
+
+    describe('zip', () => {
+        test('given two success view states when zipping then the pair of values is retrieved', () => {
+            expect(givenASuccessViewState().zip(LoadableViewState.success(1)).getOrNull()).toEqual([successValue, 1]);
+        });
+
+        test('given two success view states when zipping with a combiner then the combined value is retrieved', () => {
+            expect(
+                givenASuccessViewState()
+                    .zip(LoadableViewState.success(1), (value, count) => `${value} ${count}`)
+                    .getOrNull(),
+            ).toBe(`${successValue} 1`);
+        });
+
+        test('given a loading view state when zipping then the loading state is retrieved', () => {
+            expect(givenASuccessViewState().zip(LoadableViewState.loading()).isLoading).toBeTruthy();
+        });
+    });
+
+    describe('flatMap', () => {
+        test('given a success view state when flat mapping then the returned state is retrieved', () => {
+            const otherError = Error('other error');
+            expect(givenASuccessViewState().flatMap((value) => LoadableViewState.success(value.length))).toEqual(LoadableViewState.success(7));
+            expect(givenASuccessViewState().flatMap(() => LoadableViewState.failure(otherError))).toEqual(LoadableViewState.failure(otherError));
+        });
+
+        test.each(givenNonSuccessViewStates())('given %p when flat mapping then the state is returned', (viewState) => {
+            const transform = jest.fn<(value: string) => LoadableViewState<number>>();
+            expect(viewState.flatMap(transform)).toEqual(viewState);
+            expect(transform).not.toBeCalled();
+        });
+
+        test('given a refreshing view state with a progress when flat mapping then a loading state keeping the progress is returned', () => {
+            const progress = LoadingProgress.of(50, 100);
+            const clock: Clock = { now: () => 1000, schedule: () => () => {} };
+
+            const viewState = LoadableViewState.refreshing('previous', progress, clock).flatMap(() => LoadableViewState.success(7));
+
+            expect(viewState).toEqual(LoadableViewState.loading(progress, clock));
+            expect(viewState.progressOrNull()).toBe(progress);
+        });
+
+        test('given a failure view state with a retry attempt when flat mapping then the retry attempt is kept', () => {
+            const retry = new RetryAttempt(2, 5, 3000);
+
+            const viewState = LoadableViewState.refreshFailure(errorValue, 'previous')
+                .withRetry(retry)
+                .flatMap(() => LoadableViewState.success(7));
+
+            expect(viewState).toEqual(LoadableViewState.failure(errorValue).withRetry(retry));
+            expect(viewState.retryOrNull()).toBe(retry);
+        });
+    });
+
+    describe('mapError', () => {
+        test('given a failure view state when mapping the error then the transformation is applied', () => {
+            const mappedError = Error('mapped');
+            expect(
+                givenAFailureViewState()
+                    .mapError(() => mappedError)
+                    .errorOrNull(),
+            ).toBe(mappedError);
+        });
+
+        test.each(givenNonFailureViewStates())('given %p when mapping the error then the state is returned', (viewState) => {
+            expect(viewState.mapError(() => Error('mapped'))).toBe(viewState);
+        });
+    });
+
+    describe('recover', () => {
+        test('given a failure view state when recovering then the fallback value is retrieved as a success', () => {
+            expect(givenAFailureViewState().recover((error) => `recovered (${error.message})`)).toEqual(LoadableViewState.success('recovered (error)'));
+        });
+
+        test.each(givenNonFailureViewStates())('given %p when recovering then the state is returned', (viewState) => {
+            expect(viewState.recover(() => 'recovered')).toBe(viewState);
+        });
+    });
+
+    describe('recoverWith', () => {
+        test('given a failure view state when recovering with a state then the returned state is retrieved', () => {
+            expect(givenAFailureViewState().recoverWith(() => LoadableViewState.loading())).toEqual(LoadableViewState.loading());
+        });
+
+        test.each(givenNonFailureViewStates())('given %p when recovering with a state then the state is returned', (viewState) => {
+            expect(viewState.recoverWith(() => LoadableViewState.loading())).toBe(viewState);
+        });
+    });
+
+    describe('filter', () => {
+        const rejectedError = Error('rejected');
+
+        test('given a success view state with an accepted value when filtering then the state is returned', () => {
+            const successViewState = givenASuccessViewState();
+            expect(
+                successViewState.filter(
+                    () => true,
+                    () => rejectedError,
+                ),
+            ).toBe(successViewState);
+        });
+
+        test('given a success view state with a rejected value when filtering then a failure is retrieved', () => {
+            expect(
+                givenASuccessViewState().filter(
+                    () => false,
+                    () => rejectedError,
+                ),
+            ).toEqual(LoadableViewState.failure(rejectedError));
+        });
+
+        test.each(givenNonSuccessViewStates())('given %p when filtering then the state is returned', (viewState) => {
+            expect(
+                viewState.filter(
+                    () => false,
+                    () => rejectedError,
+                ),
+            ).toBe(viewState);
+        });
+    });
+
+    describe('refreshing', () => {
+        const previousValue = 'previous';
+        const givenARefreshingViewState = (): LoadableViewState<string> => LoadableViewState.refreshing(previousValue);
+        const givenARefreshFailureViewState = (): LoadableViewState<string> => LoadableViewState.refreshFailure(errorValue, previousValue);
+
+        test('given a refreshing view state when checking its state then it is loading and refreshing', () => {
+            const refreshingViewState = givenARefreshingViewState();
+            expect(refreshingViewState.isLoading).toBeTruthy();
+            expect(refreshingViewState.isRefreshing).toBeTruthy();
+        });
+
+        test.each([...givenNonLoadingViewStates(), givenALoadingViewState()])('given %p when checking refreshing then false is retrieved', (viewState) => {
+            expect(viewState.isRefreshing).toBeFalsy();
+        });
+
+        test.each([[givenARefreshingViewState()], [givenARefreshFailureViewState()]])(
+            'given %p when getting the value then the previous value is retrieved',
+            (viewState) => {
+                expect(viewState.getOrNull()).toBe(previousValue);
+                expect(viewState.getOrDefault('default')).toBe(previousValue);
+                expect(viewState.getOrThrow()).toBe(previousValue);
+            },
+        );
+
+        test('given a refresh failure view state when getting the error then the error is retrieved', () => {
+            const refreshFailureViewState = givenARefreshFailureViewState();
+            expect(refreshFailureViewState.isFailure).toBeTruthy();
+            expect(refreshFailureViewState.errorOrNull()).toBe(errorValue);
+        });
+
+        test('given a refreshing view state when handling onLoading then the previous value is passed', () => {
+            const perform = jest.fn<(previousValue: string | null, progress: LoadingProgress | null) => void>();
+            givenARefreshingViewState().onLoading(perform);
+            expect(perform).toBeCalledWith(previousValue, null);
+        });
+
+        test('given a refresh failure view state when handling onFailure then the error and the previous value are passed', () => {
+            const perform = jest.fn<(error: Error, previousValue: string | null) => void>();
+            givenARefreshFailureViewState().onFailure(perform);
+            expect(perform).toBeCalledWith(errorValue, previousValue);
+        });
+
+        test.each([
+            [LoadableViewState.refreshing(previousValue), 'loading previous'],
+            [LoadableViewState.refreshFailure(errorValue, previousValue), 'failure error previous'],
+            [LoadableViewState.loading<string>(), 'loading null'],
+        ])('given %p when folding then the previous value is passed', (viewState, expectedValue) => {
+            const foldedValue = viewState.fold({
+                onSuccess: (value) => `success ${value}`,
+                onFailure: (error, previousValue) => `failure ${error.message} ${previousValue}`,
+                onInitial: () => 'initial',
+                onLoading: (previousValue) => `loading ${previousValue}`,
+            });
+            expect(foldedValue).toBe(expectedValue);
+        });
+
+        test.each([
+            [LoadableViewState.refreshing(previousValue), LoadableViewState.refreshing(previousValue.length)],
+            [LoadableViewState.refreshFailure(errorValue, previousValue), LoadableViewState.refreshFailure(errorValue, previousValue.length)],
+        ])('given %p when mapping then the previous value is transformed', (viewState, expectedViewState) => {
+            expect(viewState.map((value) => value.length)).toEqual(expectedViewState);
+        });
+
+        test.each([
+            [LoadableViewState.refreshing(previousValue), `Refreshing: ${previousValue}`],
+            [LoadableViewState.refreshFailure(errorValue, previousValue), `Failure: ${errorValue} (previous: ${previousValue})`],
+        ])('given %p when converting to string then %p is returned', (viewState, expectedString) => {
+            expect(viewState.toString()).toBe(expectedString);
+        });
+
+        test.each([[givenARefreshingViewState()], [givenARefreshFailureViewState()]])(
+            'given %p when stringifying and restoring then an equal view state is retrieved',
+            (viewState) => {
+                expect(LoadableViewState.fromJSON<string>(JSON.stringify(viewState))).toEqual(viewState);
+            },
+        );
+
+        test.each([
+            [givenAnInitialViewState(), LoadableViewState.loading()],
+            [givenASuccessViewState(), LoadableViewState.refreshing(successValue)],
+            [givenARefreshFailureViewState(), LoadableViewState.refreshing(previousValue)],
+        ])('given %p when refreshing then %p is retrieved', (viewState, expectedViewState) => {
+            expect(viewState.refresh()).toEqual(expectedViewState);
+        });
+
+        test.each([
+            [givenALoadingViewState(), LoadableViewState.failure(errorValue)],
+            [givenARefreshingViewState(), LoadableViewState.refreshFailure(errorValue, previousValue)],
+        ])('given %p when failing then %p is retrieved', (viewState, expectedViewState) => {
+            expect(viewState.fail(errorValue)).toEqual(expectedViewState);
+        });
+    });
+
+    describe('progress', () => {
+        const progress = LoadingProgress.of(50, 100, 'uploading');
+        const givenALoadingViewStateWithProgress = (): LoadableViewState<string> => LoadableViewState.loading(progress);
+        const givenARefreshingViewStateWithProgress = (): LoadableViewState<string> => LoadableViewState.refreshing('previous', progress);
+
+        test.each([[givenALoadingViewStateWithProgress()], [givenARefreshingViewStateWithProgress()]])(
+            'given %p when getting the progress then the progress is retrieved',
+            (viewState) => {
+                expect(viewState.progressOrNull()).toBe(progress);
+            },
+        );
+
+        test.each([...givenNonLoadingViewStates(), givenALoadingViewState()])('given %p when getting the progress then null is retrieved', (viewState) => {
+            expect(viewState.progressOrNull()).toBeNull();
+        });
+
+        test('given a refreshing view state with progress when handling onLoading then the previous value and the progress are passed', () => {
+            const perform = jest.fn<(previousValue: string | null, progress: LoadingProgress | null) => void>();
+            givenARefreshingViewStateWithProgress().onLoading(perform);
+            expect(perform).toBeCalledWith('previous', progress);
+        });
+
+        test('given a loading view state with progress when folding then the progress is passed to onLoading', () => {
+            const onLoading = jest.fn((_previousValue: string | null, progress: LoadingProgress | null) => progress);
+            const result = givenALoadingViewStateWithProgress().fold({ onInitial: () => null, onLoading, onSuccess: () => null, onFailure: () => null });
+            expect(result).toBe(progress);
+        });
+
+        test('given a refreshing view state with progress when mapping then the progress is kept', () => {
+            const mappedViewState = givenARefreshingViewStateWithProgress().map((value) => value.length);
+            expect(mappedViewState).toEqual(LoadableViewState.refreshing(8, progress));
+        });
+
+        test.each([
+            [givenALoadingViewStateWithProgress(), 'Loading (50% uploading)'],
+            [givenARefreshingViewStateWithProgress(), 'Refreshing: previous (50% uploading)'],
+        ])('given %p when converting to string then %p is returned', (viewState, expectedString) => {
+            expect(viewState.toString()).toBe(expectedString);
+        });
+
+        test.each([[givenALoadingViewStateWithProgress()], [givenARefreshingViewStateWithProgress()]])(
+            'given %p when stringifying and restoring then an equal view state is retrieved',
+            (viewState) => {
+                expect(LoadableViewState.fromJSON<string>(JSON.stringify(viewState))).toEqual(viewState);
+            },
+        );
+    });
+
+    describe('retry', () => {
+        const retry = new RetryAttempt(2, 5, 3000);
+
+        test.each([
+            [LoadableViewState.loading<string>()],
+            [LoadableViewState.refreshing('previous')],
+            [LoadableViewState.failure<string>(errorValue)],
+            [LoadableViewState.refreshFailure(errorValue, 'previous')],
+        ])('given %p when describing an attempt then the attempt is retrieved and the state is kept', (viewState) => {
+            const retryingViewState = viewState.withRetry(retry);
+            expect(retryingViewState.retryOrNull()).toBe(retry);
+            expect(retryingViewState.isLoading).toBe(viewState.isLoading);
+            expect(retryingViewState.getOrNull()).toBe(viewState.getOrNull());
+            expect(retryingViewState.errorOrNull()).toBe(viewState.errorOrNull());
+        });
+
+        test.each([[givenAnInitialViewState()], [givenASuccessViewState()]])('given %p when describing an attempt then the state is unchanged', (viewState) => {
+            expect(viewState.withRetry(retry)).toBe(viewState);
+            expect(viewState.retryOrNull()).toBeNull();
+        });
+
+        test('given a failure view state describing an attempt when mapping then the attempt is kept', () => {
+            const viewState = LoadableViewState.refreshFailure(errorValue, 'previous').withRetry(retry);
+            expect(viewState.map((value) => value.length).retryOrNull()).toBe(retry);
+            expect(viewState.mapError(() => Error('mapped')).retryOrNull()).toBe(retry);
+        });
+
+        test.each([
+            [LoadableViewState.loading<string>().withRetry(new RetryAttempt(2, 5)), 'Loading (attempt 2/5)'],
+            [LoadableViewState.failure<string>(errorValue).withRetry(retry), 'Failure: Error: error (attempt 2/5)'],
+            [LoadableViewState.refreshFailure(errorValue, 'previous').withRetry(retry), 'Failure: Error: error (previous: previous) (attempt 2/5)'],
+        ])('given %p when converting to string then %p is returned', (viewState, expectedString) => {
+            expect(viewState.toString()).toBe(expectedString);
+        });
+
+        test.each([
+            [LoadableViewState.refreshing('previous').withRetry(new RetryAttempt(3, Infinity))],
+            [LoadableViewState.failure<string>(errorValue).withRetry(retry)],
+        ])('given %p when stringifying and restoring then an equal view state is retrieved', (viewState) => {
+            const restoredViewState = LoadableViewState.fromJSON<string>(JSON.stringify(viewState));
+            expect(restoredViewState.retryOrNull()).toEqual(viewState.retryOrNull());
+            expect(restoredViewState.toString()).toBe(viewState.toString());
+        });
+    });
+
+    describe('typed error', () => {
+        interface NotFoundError {
+            readonly kind: 'not-found';
+            readonly id: string;
+        }
+
+        const notFoundError: NotFoundError = { kind: 'not-found', id: '42' };
+        const givenATypedFailureViewState = () => LoadableViewState.failure<string, NotFoundError>(notFoundError);
+
+        test('given a failure view state with a typed error when getting the error then the typed error is retrieved', () => {
+            const error: NotFoundError | null = givenATypedFailureViewState().errorOrNull();
+            expect(error?.id).toBe('42');
+        });
+
+        test('given a failure view state with a typed error when folding then the typed error is passed to onFailure', () => {
+            const result = givenATypedFailureViewState().fold({
+                onSuccess: () => '',
+                onFailure: (error) => error.kind,
+                onInitial: () => '',
+                onLoading: () => '',
+            });
+            expect(result).toBe('not-found');
+        });
+
+        test('given a failure view state with a typed error when handling onFailure then the typed error is passed', () => {
+            const perform = jest.fn<(error: NotFoundError, previousValue: string | null) => void>();
+            givenATypedFailureViewState().onFailure(perform);
+            expect(perform).toBeCalledWith(notFoundError, null);
+        });
+
+        test('given a failure view state when mapping the error into another type then the converted error is retrieved', () => {
+            const viewState = LoadableViewState.refreshFailure(Error('404'), 'previous').mapError<NotFoundError>(() => notFoundError);
+            expect(viewState.errorOrNull()).toBe(notFoundError);
+            expect(viewState.getOrNull()).toBe('previous');
+        });
+
+        test('given a failure view state with a typed error when converting to json then the error is converted into an error first', () => {
+            expect(givenATypedFailureViewState().toJSON()).toEqual({ version: 1, type: 'failure', error: { name: 'Error', message: '[object Object]' } });
+        });
+
+        test('given a failure view state with a typed error when converting with error converters then the typed error is restored', () => {
+            const json = JSON.stringify(LoadableViewState.refreshFailure<string, NotFoundError>(notFoundError, 'previous').toJSON(undefined, (error) => error));
+
+            const restoredViewState = LoadableViewState.fromJSON<string, NotFoundError>(json, undefined, (errorJSON) => errorJSON as NotFoundError);
+
+            expect(restoredViewState.errorOrNull()).toEqual(notFoundError);
+            expect(restoredViewState.getOrNull()).toBe('previous');
+        });
+
+        test('given a failure view state with an error subclass when zipping then the error is kept', () => {
+            class ConflictError extends Error {}
+            const conflictError = new ConflictError('conflict');
+            const viewState = LoadableViewState.failure<string, ConflictError>(conflictError).zip(givenASuccessViewState());
+            expect(viewState.errorOrNull()).toBe(conflictError);
+        });
+    });
+
+    describe('status', () => {
+        test.each([
+            [givenAnInitialViewState(), 'initial'],
+            [givenALoadingViewState(), 'loading'],
+            [LoadableViewState.refreshing('previous'), 'loading'],
+            [givenASuccessViewState(), 'success'],
+            [givenAFailureViewState(), 'failure'],
+        ])('given %p when getting the status then %p is retrieved', (viewState, expectedStatus) => {
+            expect(viewState.status).toBe(expectedStatus);
+        });
+    });
+
+    describe('match', () => {
+        const whenMatchingSuccessOnly = (viewState: LoadableViewState<string>) =>
+            viewState.match({
+                onSuccess: (value) => `value: ${value}`,
+                otherwise: () => 'otherwise',
+            });
+
+        test('given a success view state when matching then the success handler is called', () => {
+            expect(whenMatchingSuccessOnly(givenASuccessViewState())).toBe(`value: ${successValue}`);
+        });
+
+        test.each(givenNonSuccessViewStates())('given %p when matching without a handler for it then otherwise is called', (viewState) => {
+            expect(whenMatchingSuccessOnly(viewState)).toBe('otherwise');
+        });
+
+        test('given a refresh failure view state when matching then the failure handler receives the error and the previous value', () => {
+            const result = LoadableViewState.refreshFailure(errorValue, 'previous').match({
+                onFailure: (error, previousValue) => `${error.message}: ${previousValue}`,
+                otherwise: () => 'otherwise',
+            });
+            expect(result).toBe('error: previous');
+        });
+    });
+
+    describe('toUnion', () => {
+        const progress = LoadingProgress.fromFraction(0.5);
+
+        test.each([
+            [givenAnInitialViewState(), { status: 'initial' }],
+            [LoadableViewState.refreshing('previous', progress), { status: 'loading', previousValue: 'previous', progress, retry: null }],
+            [givenASuccessViewState(), { status: 'success', value: successValue }],
+            [givenAFailureViewState(), { status: 'failure', error: errorValue, previousValue: null, retry: null }],
+        ])('given %p when converting to a union then %p is retrieved', (viewState, expectedUnion) => {
+            expect(viewState.toUnion()).toEqual(expectedUnion);
+        });
+
+        test('given a union when switching on its status then it is narrowed', () => {
+            const describeViewState = (viewState: LoadableViewState<string>): string => {
+                const union = viewState.toUnion();
+                switch (union.status) {
+                    case 'initial':
+                        return 'initial';
+                    case 'loading':
+                        return `loading ${union.previousValue}`;
+                    case 'success':
+                        return `success ${union.value}`;
+                    case 'failure':
+                        return `failure ${union.error.message}`;
+                }
+            };
+            expect(describeViewState(givenASuccessViewState())).toBe(`success ${successValue}`);
+            expect(describeViewState(givenAFailureViewState())).toBe('failure error');
+        });
+    });
+
+    describe('type guards', () => {
+        test.each([
+            [givenAnInitialViewState(), [true, false, false, false]],
+            [givenALoadingViewState(), [false, true, false, false]],
+            [givenASuccessViewState(), [false, false, true, false]],
+            [givenAFailureViewState(), [false, false, false, true]],
+        ])('given %p when guarding its state then %p is retrieved', (viewState, expectedGuards) => {
+            expect([viewState.isInitialState(), viewState.isLoadingState(), viewState.isSuccessState(), viewState.isFailureState()]).toEqual(expectedGuards);
+        });
+
+        test('given a success view state when it is narrowed then its value can be read', () => {
+            const viewState = givenASuccessViewState();
+            if (!viewState.isSuccessState()) throw new Error('unexpected state');
+            expect(viewState.value).toBe(successValue);
+        });
+
+        test('given a refreshing view state when it is narrowed then its previous value and progress can be read', () => {
+            const progress = LoadingProgress.fromFraction(0.5);
+            const viewState = LoadableViewState.refreshing<string>('previous', progress);
+            if (!viewState.isLoadingState()) throw new Error('unexpected state');
+            expect([viewState.previousValue, viewState.progress, viewState.retry]).toEqual(['previous', progress, null]);
+        });
+
+        test('given a refresh failure view state when it is narrowed then its error and previous value can be read', () => {
+            const viewState = LoadableViewState.refreshFailure<string>(errorValue, 'previous');
+            if (!viewState.isFailureState()) throw new Error('unexpected state');
+            expect([viewState.error.message, viewState.previousValue]).toEqual(['error', 'previous']);
+        });
+
+        test('given a narrowed view state when reading its status then it is narrowed as well', () => {
+            const viewState = givenAnInitialViewState();
+            if (!viewState.isInitialState()) throw new Error('unexpected state');
+            const status: 'initial' = viewState.status;
+            expect(status).toBe('initial');
+        });
+    });
+
+    describe('equals', () => {
+        test.each([
+            [givenAnInitialViewState(), givenAnInitialViewState()],
+            [givenALoadingViewState(), givenALoadingViewState()],
+            [
+                LoadableViewState.refreshing('previous', LoadingProgress.fromFraction(0.5)),
+                LoadableViewState.refreshing('previous', LoadingProgress.fromFraction(0.5)),
+            ],
+            [givenASuccessViewState(), givenASuccessViewState()],
+            [givenAFailureViewState(), givenAFailureViewState()],
+            [LoadableViewState.refreshFailure(errorValue, 'previous'), LoadableViewState.refreshFailure(errorValue, 'previous')],
+        ])('given %p and an identical state when comparing them then they are equal', (viewState, other) => {
+            expect(viewState.equals(other)).toBe(true);
+        });
+
+        test.each([
+            [givenAnInitialViewState(), givenALoadingViewState()],
+            [givenALoadingViewState(), LoadableViewState.refreshing('previous')],
+            [LoadableViewState.loading<string>(LoadingProgress.fromFraction(0.5)), LoadableViewState.loading<string>(LoadingProgress.fromFraction(0.6))],
+            [givenASuccessViewState(), LoadableViewState.success('other')],
+            [givenAFailureViewState(), LoadableViewState.failure<string>(Error('error'))],
+            [givenAFailureViewState(), LoadableViewState.refreshFailure(errorValue, 'previous')],
+            [givenAFailureViewState(), givenAFailureViewState().withRetry(new RetryAttempt(2, 3))],
+        ])('given %p and %p when comparing them then they are not equal', (viewState, other) => {
+            expect(viewState.equals(other)).toBe(false);
+        });
+
+        test('given two success view states with equal values when comparing them with a value comparator then they are equal', () => {
+            const viewState = LoadableViewState.success({ id: 1 });
+            const other = LoadableViewState.success({ id: 1 });
+
+            expect(viewState.equals(other)).toBe(false);
+            expect(viewState.equals(other, (value, otherValue) => value.id === otherValue.id)).toBe(true);
+        });
+
+        test('given two identical view states when comparing them with the static helper then they are equal', () => {
+            expect(LoadableViewState.equals(givenASuccessViewState(), givenASuccessViewState())).toBe(true);
+        });
+
+        test('given two failure view states with equal errors when comparing them with an error comparator then they are equal', () => {
+            const viewState = LoadableViewState.refreshFailure(Error('error'), 'previous');
+            const other = LoadableViewState.refreshFailure(Error('error'), 'previous');
+            const errorEquals = (error: Error, otherError: Error) => error.message === otherError.message;
+
+            expect(viewState.equals(other)).toBe(false);
+            expect(viewState.equals(other, undefined, errorEquals)).toBe(true);
+            expect(LoadableViewState.equals(viewState, other, undefined, errorEquals)).toBe(true);
+        });
+    });
+
+    describe('timestamps', () => {
+        const givenAClockAt = (time: number): Clock => ({ now: () => time, schedule: () => () => {} });
+
+        test.each([
+            [LoadableViewState.loading<string>(undefined, givenAClockAt(1000)), [1000, null, null]],
+            [LoadableViewState.refreshing('previous', undefined, givenAClockAt(1000)), [1000, null, null]],
+            [LoadableViewState.success('value', givenAClockAt(1000)), [null, 1000, null]],
+            [LoadableViewState.failure<string>(Error('error'), givenAClockAt(1000)), [null, null, 1000]],
+            [LoadableViewState.refreshFailure(Error('error'), 'previous', givenAClockAt(1000)), [null, null, 1000]],
+            [LoadableViewState.success('value'), [null, null, null]],
+        ])('given %p when reading its timestamps then %p are retrieved', (viewState, expectedTimestamps) => {
+            expect([viewState.loadingStartedAt, viewState.loadedAt, viewState.failedAt]).toEqual(expectedTimestamps);
+        });
+
+        test('given a success view state when refreshing it and failing then the time the value was loaded is kept', () => {
+            const refreshing = LoadableViewState.success('value', givenAClockAt(1000)).refresh(givenAClockAt(5000));
+            const failure = refreshing.fail(Error('error'), givenAClockAt(6000));
+
+            expect([refreshing.loadingStartedAt, refreshing.loadedAt]).toEqual([5000, 1000]);
+            expect([failure.loadedAt, failure.failedAt]).toEqual([1000, 6000]);
+        });
+
+        test('given a success view state with timestamps when mapping it then the timestamps are kept', () => {
+            const viewState = LoadableViewState.success('value', givenAClockAt(1000))
+                .map((value) => value.length)
+                .withRetry(new RetryAttempt(1, 3));
+
+            expect(viewState.map((length) => length * 2).loadedAt).toBe(1000);
+            expect(LoadableViewState.failure<string>(Error('error'), givenAClockAt(2000)).mapError((error) => error.message).failedAt).toBe(2000);
+        });
+
+        test.each([
+            [LoadableViewState.success('value', givenAClockAt(1000)), 1500, false],
+            [LoadableViewState.success('value', givenAClockAt(1000)), 2000, false],
+            [LoadableViewState.success('value', givenAClockAt(1000)), 2001, true],
+            [LoadableViewState.success('value'), 1000, true],
+            [LoadableViewState.initial<string>(), 1000, true],
+        ])('given %p when checking whether it is stale for a max age of 1000 at %p then %p is retrieved', (viewState, now, expectedIsStale) => {
+            expect(viewState.isStale(1000, now)).toBe(expectedIsStale);
+        });
+
+        test('given view states with different timestamps when comparing them then they are equal', () => {
+            expect(LoadableViewState.success('value', givenAClockAt(1000)).equals(LoadableViewState.success('value', givenAClockAt(2000)))).toBe(true);
+        });
+
+        test('given a failure view state keeping a loaded value when converting to json and restoring it then its timestamps are kept', () => {
+            const viewState = LoadableViewState.success('value', givenAClockAt(1000)).refresh(givenAClockAt(2000)).fail(Error('error'), givenAClockAt(3000));
+
+            const json = viewState.toJSON();
+            const restoredViewState = LoadableViewState.fromJSON<string>(JSON.stringify(json));
+
+            expect(json).toMatchObject({ loadedAt: 1000, failedAt: 3000 });
+            expect(json).not.toHaveProperty('loadingStartedAt');
+            expect(restoredViewState).toEqual(viewState);
+        });
+
+        test('given a timestamp that is not a number when restoring then an error is thrown', () => {
+            expect(() => LoadableViewState.fromJSON({ version: 1, type: 'success', value: 'value', loadedAt: '1000' })).toThrow();
+        });
+    });
 });
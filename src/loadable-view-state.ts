@@ -1,3 +1,11 @@
+import { AggregateViewStateError } from './aggregate-view-state-error';
+import { Clock } from './clock';
+import { LoadingProgress } from './loading-progress';
+import { RetryAttempt } from './retry-attempt';
+import { toError } from './to-error';
+import { deserializeError, parseViewStateJSON, SerializedError, serializeError, VIEW_STATE_JSON_VERSION } from './view-state-json';
+import { isStale, noTimestamps, parseTimestamps, stamp, ViewStateTimestamps } from './view-state-timestamps';
+
 class InitialType {
     readonly type = 'initial';
 }
@@ -6,23 +14,136 @@ const initialType = new InitialType();
 
 class LoadingType {
     readonly type = 'loading';
+
+    constructor(
+        public readonly progress: LoadingProgress | null = null,
+        public readonly retry: RetryAttempt | null = null,
+    ) {}
 }
 
 const loadingType = new LoadingType();
 
+class RefreshingType<Value> extends LoadingType {
+    constructor(
+        public readonly previousValue: Value,
+        progress: LoadingProgress | null = null,
+        retry: RetryAttempt | null = null,
+    ) {
+        super(progress, retry);
+    }
+}
+
 class SuccessType<Value> {
     readonly type = 'success';
 
     constructor(public readonly value: Value) {}
 }
 
-class FailureType {
+class FailureType<ErrorValue> {
     readonly type = 'failure';
 
-    constructor(public readonly error: Error) {}
+    constructor(
+        public readonly error: ErrorValue,
+        public readonly retry: RetryAttempt | null = null,
+    ) {}
 }
 
-type LoadableViewStateType<Value> = InitialType | LoadingType | SuccessType<Value> | FailureType;
+class RefreshFailureType<Value, ErrorValue> extends FailureType<ErrorValue> {
+    constructor(
+        error: ErrorValue,
+        public readonly previousValue: Value,
+        retry: RetryAttempt | null = null,
+    ) {
+        super(error, retry);
+    }
+}
+
+type LoadableViewStateType<Value, ErrorValue> =
+    | InitialType
+    | LoadingType
+    | RefreshingType<Value>
+    | SuccessType<Value>
+    | FailureType<ErrorValue>
+    | RefreshFailureType<Value, ErrorValue>;
+
+/**
+ * The values encapsulated by a tuple or a record of LoadableViewStates.
+ */
+export type LoadableViewStateValues<ViewStates> = {
+    [Key in keyof ViewStates]: ViewStates[Key] extends LoadableViewState<infer Value, unknown> ? Value : never;
+};
+
+/**
+ * The wire format of a LoadableViewState, as produced by `toJSON` and accepted by `fromJSON`. The times recorded by the state are kept as optional fields.
+ *
+ * @template ErrorJSON The wire format of the error encapsulated in a failure case.
+ */
+export type LoadableViewStateJSON<ErrorJSON = SerializedError> = ViewStateTimestamps &
+    (
+        | { readonly version: number; readonly type: 'initial' }
+        | {
+              readonly version: number;
+              readonly type: 'loading';
+              readonly previousValue?: unknown;
+              readonly progress?: LoadingProgress;
+              readonly retry?: RetryAttempt;
+          }
+        | { readonly version: number; readonly type: 'success'; readonly value: unknown }
+        | { readonly version: number; readonly type: 'failure'; readonly error: ErrorJSON; readonly previousValue?: unknown; readonly retry?: RetryAttempt }
+    );
+
+/**
+ * The discriminant of a LoadableViewState, as returned by `status`.
+ */
+export type LoadableViewStateStatus = 'initial' | 'loading' | 'success' | 'failure';
+
+/**
+ * A plain discriminated union describing a LoadableViewState, as returned by `toUnion`, so it can be narrowed by its `status` in a `switch` statement.
+ *
+ * @template Value The type of the data encapsulated in a success case.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type LoadableViewStateUnion<Value, ErrorValue = Error> =
+    | { readonly status: 'initial' }
+    | { readonly status: 'loading'; readonly previousValue: Value | null; readonly progress: LoadingProgress | null; readonly retry: RetryAttempt | null }
+    | { readonly status: 'success'; readonly value: Value }
+    | { readonly status: 'failure'; readonly error: ErrorValue; readonly previousValue: Value | null; readonly retry: RetryAttempt | null };
+
+/**
+ * A LoadableViewState narrowed by `isInitialState`.
+ *
+ * @template Value The type of the data encapsulated in a success case.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type LoadableViewStateInitial<Value, ErrorValue = Error> = LoadableViewState<Value, ErrorValue> &
+    Extract<LoadableViewStateUnion<Value, ErrorValue>, { readonly status: 'initial' }>;
+
+/**
+ * A LoadableViewState narrowed by `isLoadingState`, exposing the previously loaded value, the progress, and the attempt of the loading state.
+ *
+ * @template Value The type of the data encapsulated in a success case.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type LoadableViewStateLoading<Value, ErrorValue = Error> = LoadableViewState<Value, ErrorValue> &
+    Extract<LoadableViewStateUnion<Value, ErrorValue>, { readonly status: 'loading' }>;
+
+/**
+ * A LoadableViewState narrowed by `isSuccessState`, exposing the encapsulated value.
+ *
+ * @template Value The type of the data encapsulated in a success case.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type LoadableViewStateSuccess<Value, ErrorValue = Error> = LoadableViewState<Value, ErrorValue> &
+    Extract<LoadableViewStateUnion<Value, ErrorValue>, { readonly status: 'success' }>;
+
+/**
+ * A LoadableViewState narrowed by `isFailureState`, exposing the error, the previously loaded value, and the attempt of the failure state.
+ *
+ * @template Value The type of the data encapsulated in a success case.
+ * @template ErrorValue The type of the error encapsulated in a failure case.
+ */
+export type LoadableViewStateFailure<Value, ErrorValue = Error> = LoadableViewState<Value, ErrorValue> &
+    Extract<LoadableViewStateUnion<Value, ErrorValue>, { readonly status: 'failure' }>;
 
 /**
  * Represents the state of a loadable view, allowing for handling multiple states such as initial, loading, success, or failure.
@@ -31,9 +152,13 @@ type LoadableViewStateType<Value> = InitialType | LoadingType | SuccessType<Valu
  * based on the specific state type.
  *
  * @template Value The type of the data this state encapsulates in a success case.
+ * @template ErrorValue The type of the error this state encapsulates in a failure case. Defaults to Error.
  */
-export class LoadableViewState<Value> {
-    constructor(private readonly loadableViewState: LoadableViewStateType<Value>) {}
+export class LoadableViewState<Value, ErrorValue = Error> {
+    constructor(
+        private readonly loadableViewState: LoadableViewStateType<Value, ErrorValue>,
+        private readonly timestamps: ViewStateTimestamps = noTimestamps,
+    ) {}
 
     /**
      * Returns an instance in the initial state.
@@ -41,7 +166,7 @@ export class LoadableViewState<Value> {
      * @template Value
      * @return {LoadableViewState<Value>} A new instance of LoadableViewState with an initial state.
      */
-    static initial<Value>(): LoadableViewState<Value> {
+    static initial<Value, ErrorValue = Error>(): LoadableViewState<Value, ErrorValue> {
         return new LoadableViewState(initialType);
     }
 
@@ -49,10 +174,25 @@ export class LoadableViewState<Value> {
      * Returns an instance in the loading state.
      *
      * @template Value
+     * @param {LoadingProgress} progress - The optional progress of the loading.
+     * @param {Clock} clock - The optional clock recording when the loading started.
      * @return {LoadableViewState<Value>} A new instance of LoadableViewState with a loading state.
      */
-    static loading<Value>(): LoadableViewState<Value> {
-        return new LoadableViewState(loadingType);
+    static loading<Value, ErrorValue = Error>(progress?: LoadingProgress, clock?: Clock): LoadableViewState<Value, ErrorValue> {
+        return new LoadableViewState(progress !== undefined ? new LoadingType(progress) : loadingType, stamp(noTimestamps, 'loadingStartedAt', clock));
+    }
+
+    /**
+     * Returns an instance in the loading state that keeps the previously loaded value, so it can still be shown while the value is loaded again.
+     *
+     * @template Value
+     * @param {Value} previousValue - The previously loaded value to be encapsulated within a loading state.
+     * @param {LoadingProgress} progress - The optional progress of the loading.
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @return {LoadableViewState<Value>} A new instance of LoadableViewState with a refreshing loading state.
+     */
+    static refreshing<Value, ErrorValue = Error>(previousValue: Value, progress?: LoadingProgress, clock?: Clock): LoadableViewState<Value, ErrorValue> {
+        return new LoadableViewState(new RefreshingType(previousValue, progress ?? null), stamp(noTimestamps, 'loadingStartedAt', clock));
     }
 
     /**
@@ -60,21 +200,183 @@ export class LoadableViewState<Value> {
      *
      * @template Value
      * @param {Value} value - The value to be encapsulated within a successful state.
+     * @param {Clock} clock - The optional clock recording when the value was loaded.
      * @return {LoadableViewState<Value>} A new instance of LoadableViewState with a success state.
      */
-    static success<Value>(value: Value): LoadableViewState<Value> {
-        return new LoadableViewState(new SuccessType(value));
+    static success<Value, ErrorValue = Error>(value: Value, clock?: Clock): LoadableViewState<Value, ErrorValue> {
+        return new LoadableViewState(new SuccessType(value), stamp(noTimestamps, 'loadedAt', clock));
     }
 
     /**
      * Returns an instance that encapsulates the given error as a failure state.
      *
      * @template Value
-     * @param {Error} error - The error to be encapsulated within a failure state.
-     * @return {LoadableViewState<Value>} A new instance of LoadableViewState with a failure state.
+     * @template ErrorValue
+     * @param {ErrorValue} error - The error to be encapsulated within a failure state.
+     * @param {Clock} clock - The optional clock recording when the failure happened.
+     * @return {LoadableViewState<Value, ErrorValue>} A new instance of LoadableViewState with a failure state.
+     */
+    static failure<Value, ErrorValue = Error>(error: ErrorValue, clock?: Clock): LoadableViewState<Value, ErrorValue> {
+        return new LoadableViewState(new FailureType(error), stamp(noTimestamps, 'failedAt', clock));
+    }
+
+    /**
+     * Returns an instance that encapsulates the given error as a failure state and keeps the previously loaded value, so it can still be shown after a
+     * failed refresh.
+     *
+     * @template Value
+     * @template ErrorValue
+     * @param {ErrorValue} error - The error to be encapsulated within a failure state.
+     * @param {Value} previousValue - The previously loaded value to be encapsulated within a failure state.
+     * @param {Clock} clock - The optional clock recording when the failure happened.
+     * @return {LoadableViewState<Value, ErrorValue>} A new instance of LoadableViewState with a failure state keeping the previous value.
+     */
+    static refreshFailure<Value, ErrorValue = Error>(error: ErrorValue, previousValue: Value, clock?: Clock): LoadableViewState<Value, ErrorValue> {
+        return new LoadableViewState(new RefreshFailureType(error, previousValue), stamp(noTimestamps, 'failedAt', clock));
+    }
+
+    /**
+     * Returns an instance restored from the given wire format, including the times it recorded.
+     *
+     * @template Value, ErrorValue
+     * @param {unknown} json - The wire format produced by `toJSON`, either as a JSON string or as an already parsed value.
+     * @param {(unknown) => Value} reviver - A function to restore the encapsulated value from its wire format. Defaults to returning it unchanged.
+     * @param {(unknown) => ErrorValue} errorReviver - A function to restore the error from its wire format. Defaults to `deserializeError`.
+     * @return {LoadableViewState<Value, ErrorValue>} A new instance of LoadableViewState with the restored state.
+     * @throws {Error} If the given value is not a supported wire format.
+     */
+    static fromJSON<Value, ErrorValue = Error>(
+        json: unknown,
+        reviver: (value: unknown) => Value = (value) => value as Value,
+        errorReviver: (json: unknown) => ErrorValue = deserializeError as (json: unknown) => ErrorValue,
+    ): LoadableViewState<Value, ErrorValue> {
+        const viewStateJSON = parseViewStateJSON(json);
+        const viewStateType = LoadableViewState.fromViewStateJSON(viewStateJSON, reviver, errorReviver).loadableViewState;
+        const viewState = new LoadableViewState(viewStateType, parseTimestamps(viewStateJSON));
+        return viewStateJSON['retry'] != null ? viewState.withRetry(RetryAttempt.fromJSON(viewStateJSON['retry'])) : viewState;
+    }
+
+    private static fromViewStateJSON<Value, ErrorValue>(
+        viewStateJSON: Record<string, unknown>,
+        reviver: (value: unknown) => Value,
+        errorReviver: (json: unknown) => ErrorValue,
+    ): LoadableViewState<Value, ErrorValue> {
+        switch (viewStateJSON['type']) {
+            case 'initial':
+                return LoadableViewState.initial();
+            case 'loading': {
+                const progress = viewStateJSON['progress'] != null ? LoadingProgress.fromJSON(viewStateJSON['progress']) : undefined;
+                if ('previousValue' in viewStateJSON) return LoadableViewState.refreshing(reviver(viewStateJSON['previousValue']), progress);
+                return LoadableViewState.loading(progress);
+            }
+            case 'success':
+                return LoadableViewState.success(reviver(viewStateJSON['value']));
+            case 'failure':
+                if ('previousValue' in viewStateJSON) {
+                    return LoadableViewState.refreshFailure(errorReviver(viewStateJSON['error']), reviver(viewStateJSON['previousValue']));
+                }
+                return LoadableViewState.failure(errorReviver(viewStateJSON['error']));
+            default:
+                throw new Error(`unknown view state type: ${String(viewStateJSON['type'])}`);
+        }
+    }
+
+    /**
+     * Merges the given states into a single one that succeeds with the tuple of their values only when all of them succeeded.
+     *
+     * The merged state follows these precedence rules: failure if any state is a failure, otherwise loading if any state is loading, otherwise initial if any
+     * state is initial, otherwise success. A single failure keeps its error, several failures are wrapped into an AggregateViewStateError.
+     *
+     * @template ViewStates
+     * @param {ViewStates} viewStates - The states to merge.
+     * @return {LoadableViewState<LoadableViewStateValues<ViewStates>>} A new instance of LoadableViewState with the merged state.
+     */
+    static all<ViewStates extends readonly LoadableViewState<unknown, Error>[]>(
+        viewStates: readonly [...ViewStates],
+    ): LoadableViewState<LoadableViewStateValues<ViewStates>> {
+        return LoadableViewState.merge(viewStates, () => viewStates.map((viewState) => viewState.getOrThrow()) as LoadableViewStateValues<ViewStates>);
+    }
+
+    /**
+     * Merges the given record of states into a single one that succeeds with the record of their values only when all of them succeeded.
+     *
+     * The merged state follows the same precedence rules as `all`.
+     *
+     * @template ViewStates
+     * @param {ViewStates} viewStates - The record of states to merge.
+     * @return {LoadableViewState<LoadableViewStateValues<ViewStates>>} A new instance of LoadableViewState with the merged state.
+     */
+    static combine<ViewStates extends Readonly<Record<string, LoadableViewState<unknown, Error>>>>(
+        viewStates: ViewStates,
+    ): LoadableViewState<LoadableViewStateValues<ViewStates>> {
+        const keys = Object.keys(viewStates);
+        return LoadableViewState.merge(
+            keys.map((key) => viewStates[key] as LoadableViewState<unknown, Error>),
+            () =>
+                keys.reduce<Record<string, unknown>>((values, key) => {
+                    values[key] = (viewStates[key] as LoadableViewState<unknown, Error>).getOrThrow();
+                    return values;
+                }, {}) as LoadableViewStateValues<ViewStates>,
+        );
+    }
+
+    /**
+     * Merges the given states into a single one that succeeds with the value of the first successful state, in the given order.
+     *
+     * If no state succeeded, the merged state is loading if any state is loading, otherwise initial if any state is initial, otherwise a failure wrapping
+     * the errors of all the states into an AggregateViewStateError.
+     *
+     * @template Value
+     * @param {LoadableViewState<Value>[]} viewStates - The states to merge.
+     * @return {LoadableViewState<Value>} A new instance of LoadableViewState with the merged state.
      */
-    static failure<Value>(error: Error): LoadableViewState<Value> {
-        return new LoadableViewState(new FailureType(error));
+    static any<Value>(viewStates: readonly LoadableViewState<Value>[]): LoadableViewState<Value> {
+        const successViewState = viewStates.filter((viewState) => viewState.isSuccess)[0];
+        if (successViewState !== undefined) return successViewState;
+        if (viewStates.some((viewState) => viewState.isLoading)) return LoadableViewState.loading();
+        if (viewStates.some((viewState) => viewState.isInitial)) return LoadableViewState.initial();
+        return LoadableViewState.failure(new AggregateViewStateError(LoadableViewState.errorsOf(viewStates)));
+    }
+
+    /**
+     * Returns true if the given states are equal, as defined by `equals`. It can be used as the equality function of a store or a selector.
+     *
+     * @template Value
+     * @param {LoadableViewState<Value, ErrorValue>} viewState - The first state.
+     * @param {LoadableViewState<Value, ErrorValue>} other - The second state.
+     * @param {(Value, Value) => boolean} valueEquals - A function that returns true if two values are equal. Defaults to `Object.is`.
+     * @param {(ErrorValue, ErrorValue) => boolean} errorEquals - A function that returns true if two errors are equal. Defaults to `Object.is`.
+     * @return {boolean} True if both states are equal.
+     */
+    static equals<Value, ErrorValue = Error>(
+        viewState: LoadableViewState<Value, ErrorValue>,
+        other: LoadableViewState<Value, ErrorValue>,
+        valueEquals?: (value: Value, otherValue: Value) => boolean,
+        errorEquals?: (error: ErrorValue, otherError: ErrorValue) => boolean,
+    ): boolean {
+        return viewState.equals(other, valueEquals, errorEquals);
+    }
+
+    private static merge<Values>(viewStates: readonly LoadableViewState<unknown, Error>[], values: () => Values): LoadableViewState<Values> {
+        const errors = LoadableViewState.errorsOf(viewStates);
+        if (errors.length === 1) return LoadableViewState.failure(errors[0] as Error);
+        if (errors.length > 1) return LoadableViewState.failure(new AggregateViewStateError(errors));
+        if (viewStates.some((viewState) => viewState.isLoading)) return LoadableViewState.loading();
+        if (viewStates.some((viewState) => viewState.isInitial)) return LoadableViewState.initial();
+        return LoadableViewState.success(values());
+    }
+
+    private static errorsOf(viewStates: readonly LoadableViewState<unknown, Error>[]): Error[] {
+        return viewStates.map((viewState) => viewState.errorOrNull()).filter((error): error is Error => error !== null);
+    }
+
+    /**
+     * Returns the discriminant of the current state.
+     *
+     * @return {LoadableViewStateStatus} "initial", "loading", "success", or "failure".
+     */
+    get status(): LoadableViewStateStatus {
+        return this.loadableViewState.type;
     }
 
     /**
@@ -95,6 +397,15 @@ export class LoadableViewState<Value> {
         return this.loadableViewState instanceof LoadingType;
     }
 
+    /**
+     * Returns true if this instance represents a loading state that keeps the previously loaded value.
+     *
+     * @return {boolean} True if this instance represents a refreshing loading state.
+     */
+    get isRefreshing(): boolean {
+        return this.loadableViewState instanceof RefreshingType;
+    }
+
     /**
      * Returns true if this instance represents a success state.
      *
@@ -114,58 +425,211 @@ export class LoadableViewState<Value> {
     }
 
     /**
-     * Returns the value if the state is successful, otherwise returns null.
+     * Returns true if this instance represents an initial state, narrowing its type accordingly.
+     *
+     * @return {boolean} True if this instance represents an initial state.
+     */
+    isInitialState(): this is LoadableViewStateInitial<Value, ErrorValue> {
+        return this.isInitial;
+    }
+
+    /**
+     * Returns true if this instance represents a loading state, narrowing its type so that `previousValue`, `progress`, and `retry` can be read.
+     *
+     * @return {boolean} True if this instance represents a loading state.
+     */
+    isLoadingState(): this is LoadableViewStateLoading<Value, ErrorValue> {
+        return this.isLoading;
+    }
+
+    /**
+     * Returns true if this instance represents a success state, narrowing its type so that `value` can be read.
+     *
+     * @return {boolean} True if this instance represents a success state.
+     */
+    isSuccessState(): this is LoadableViewStateSuccess<Value, ErrorValue> {
+        return this.isSuccess;
+    }
+
+    /**
+     * Returns true if this instance represents a failure state, narrowing its type so that `error`, `previousValue`, and `retry` can be read.
+     *
+     * @return {boolean} True if this instance represents a failure state.
+     */
+    isFailureState(): this is LoadableViewStateFailure<Value, ErrorValue> {
+        return this.isFailure;
+    }
+
+    protected get value(): Value | undefined {
+        if (this.isSuccess) return (this.loadableViewState as SuccessType<Value>).value;
+        return undefined;
+    }
+
+    protected get error(): ErrorValue | undefined {
+        if (this.isFailure) return (this.loadableViewState as FailureType<ErrorValue>).error;
+        return undefined;
+    }
+
+    protected get previousValue(): Value | null | undefined {
+        if (this.isLoading || this.isFailure) return this.getOrNull();
+        return undefined;
+    }
+
+    protected get progress(): LoadingProgress | null | undefined {
+        if (this.isLoading) return this.progressOrNull();
+        return undefined;
+    }
+
+    protected get retry(): RetryAttempt | null | undefined {
+        if (this.isLoading || this.isFailure) return this.retryOrNull();
+        return undefined;
+    }
+
+    /**
+     * Returns the value if the state is successful or keeps a previously loaded value, otherwise returns null.
      *
      * @template Value
-     * @return {Value | null} The value if the operation was successful, otherwise returns null.
+     * @return {Value | null} The value if the operation was successful or the previously loaded value, otherwise returns null.
      */
     getOrNull(): Value | null {
-        if (this.isSuccess) return (this.loadableViewState as SuccessType<Value>).value;
+        const latestValue = this.latestValue();
+        if (latestValue !== null) return latestValue.value;
         return null;
     }
 
     /**
-     * Returns the value if the state is successful, otherwise returns the given default value.
+     * Returns the value if the state is successful or keeps a previously loaded value, otherwise returns the given default value.
      *
      * @template Value
-     * @param {Value} defaultValue - The value to return if the state is not successful.
-     * @return {Value} - The value from the state if successful, otherwise the provided default value.
+     * @param {Value} defaultValue - The value to return if the state has no value.
+     * @return {Value} - The value from the state if successful or the previously loaded value, otherwise the provided default value.
      */
     getOrDefault(defaultValue: Value): Value {
-        if (this.isSuccess) return (this.loadableViewState as SuccessType<Value>).value;
+        const latestValue = this.latestValue();
+        if (latestValue !== null) return latestValue.value;
         return defaultValue;
     }
 
     /**
-     * Returns the value if the state is successful, otherwise throws the error.
+     * Returns the value if the state is successful or keeps a previously loaded value, otherwise throws.
      *
      * @template Value
-     * @return {Value} The value from the state if successful.
-     * @throws {Error} If the state is not successful, throws the associated error.
+     * @return {Value} The value if the operation was successful or the previously loaded value.
+     * @throws {ErrorValue | Error} The error of a failure state without a previous value, or an Error if the state is initial or loading without a
+     * previous value.
      */
     getOrThrow(): Value {
-        if (this.isSuccess) return (this.loadableViewState as SuccessType<Value>).value;
-        throw (this.loadableViewState as FailureType).error;
+        const latestValue = this.latestValue();
+        if (latestValue !== null) return latestValue.value;
+        if (this.isFailure) throw (this.loadableViewState as FailureType<ErrorValue>).error;
+        throw new Error(`no value to return from the ${this.status} state`);
+    }
+
+    /**
+     * Returns the progress if the current state is loading and reports one, otherwise returns null.
+     *
+     * @return {LoadingProgress | null} The progress of the loading state, or null if there is none.
+     */
+    progressOrNull(): LoadingProgress | null {
+        if (this.isLoading) return (this.loadableViewState as LoadingType).progress;
+        return null;
+    }
+
+    /**
+     * Returns the attempt if the current state is a loading or a failure state of a retried load, otherwise returns null.
+     *
+     * @return {RetryAttempt | null} The attempt of the retried load, or null if there is none.
+     */
+    retryOrNull(): RetryAttempt | null {
+        if (this.isLoading) return (this.loadableViewState as LoadingType).retry;
+        if (this.isFailure) return (this.loadableViewState as FailureType<ErrorValue>).retry;
+        return null;
+    }
+
+    /**
+     * Returns a copy of this state that describes the given attempt of a retried load if it is a loading or a failure state, otherwise returns this state.
+     *
+     * @template Value
+     * @param {RetryAttempt} retry - The attempt of the retried load.
+     * @return {LoadableViewState<Value, ErrorValue>} A new LoadableViewState describing the attempt, or the current state if the state is not loading nor
+     * failure.
+     */
+    withRetry(retry: RetryAttempt): LoadableViewState<Value, ErrorValue> {
+        const viewStateType = this.loadableViewState;
+        if (viewStateType instanceof RefreshingType) {
+            return new LoadableViewState(
+                new RefreshingType((viewStateType as RefreshingType<Value>).previousValue, viewStateType.progress, retry),
+                this.timestamps,
+            );
+        }
+        if (viewStateType instanceof LoadingType) return new LoadableViewState(new LoadingType(viewStateType.progress, retry), this.timestamps);
+        if (viewStateType instanceof RefreshFailureType) {
+            return new LoadableViewState(
+                new RefreshFailureType(viewStateType.error, (viewStateType as RefreshFailureType<Value, ErrorValue>).previousValue, retry),
+                this.timestamps,
+            );
+        }
+        if (viewStateType instanceof FailureType) return new LoadableViewState(new FailureType(viewStateType.error, retry), this.timestamps);
+        return this;
     }
 
     /**
      * Returns the error if the current state is a failure, otherwise returns null.
      *
-     * @return {Error | null} The error associated with the failure state, or null if there is no failure.
+     * @return {ErrorValue | null} The error associated with the failure state, or null if there is no failure.
      */
-    errorOrNull(): Error | null {
-        if (this.isFailure) return (this.loadableViewState as FailureType).error;
+    errorOrNull(): ErrorValue | null {
+        if (this.isFailure) return (this.loadableViewState as FailureType<ErrorValue>).error;
         return null;
     }
 
+    /**
+     * Returns the time the loading started if the current state is loading and was created with a clock, otherwise returns null.
+     *
+     * @return {number | null} The time in milliseconds since the epoch, or null if it was not recorded.
+     */
+    get loadingStartedAt(): number | null {
+        return this.timestamps.loadingStartedAt ?? null;
+    }
+
+    /**
+     * Returns the time the value was loaded if the current state has a value and its load was recorded with a clock, otherwise returns null. Refreshing and
+     * failure states keep the time the previous value was loaded.
+     *
+     * @return {number | null} The time in milliseconds since the epoch, or null if it was not recorded.
+     */
+    get loadedAt(): number | null {
+        return this.timestamps.loadedAt ?? null;
+    }
+
+    /**
+     * Returns the time the failure happened if the current state is a failure and was created with a clock, otherwise returns null.
+     *
+     * @return {number | null} The time in milliseconds since the epoch, or null if it was not recorded.
+     */
+    get failedAt(): number | null {
+        return this.timestamps.failedAt ?? null;
+    }
+
+    /**
+     * Returns true if the value should be loaded again: no value was loaded at a recorded time, or it was loaded more than the given age ago.
+     *
+     * @param {number} maxAge - The age in milliseconds after which a loaded value is stale.
+     * @param {number} now - The current time in milliseconds since the epoch. Defaults to `Date.now()`.
+     * @return {boolean} True if the value is stale.
+     */
+    isStale(maxAge: number, now: number = Date.now()): boolean {
+        return isStale(this.timestamps, maxAge, now);
+    }
+
     /**
      * Performs the given action if this instance represents an initial state. Returns the original state unchanged.
      *
      * @template Value
      * @param {() => void} perform - The callback function to be executed if the state is initial.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @return {LoadableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onInitial(perform: () => void): LoadableViewState<Value> {
+    onInitial(perform: () => void): LoadableViewState<Value, ErrorValue> {
         if (this.isInitial) perform();
         return this;
     }
@@ -174,11 +638,12 @@ export class LoadableViewState<Value> {
      * Performs the given action if this instance represents a loading state. Returns the original state unchanged.
      *
      * @template Value
-     * @param {() => void} perform - The callback function to be executed if the state is loading.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @param {(Value | null, LoadingProgress | null) => void} perform - The callback function to be executed with the previously loaded value and the
+     * progress, or null if there are none, if the state is loading.
+     * @return {LoadableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onLoading(perform: () => void): LoadableViewState<Value> {
-        if (this.isLoading) perform();
+    onLoading(perform: (previousValue: Value | null, progress: LoadingProgress | null) => void): LoadableViewState<Value, ErrorValue> {
+        if (this.isLoading) perform(this.getOrNull(), this.progressOrNull());
         return this;
     }
 
@@ -187,9 +652,9 @@ export class LoadableViewState<Value> {
      *
      * @template Value
      * @param {(Value) => void} perform - The callback function to be executed if the state is success.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @return {LoadableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onSuccess(perform: (value: Value) => void): LoadableViewState<Value> {
+    onSuccess(perform: (value: Value) => void): LoadableViewState<Value, ErrorValue> {
         if (this.isSuccess) perform((this.loadableViewState as SuccessType<Value>).value);
         return this;
     }
@@ -198,28 +663,197 @@ export class LoadableViewState<Value> {
      * Performs the given action on the encapsulated error if this instance represents a failure state. Returns the original state unchanged.
      *
      * @template Value
-     * @param {(Error) => void} perform - The callback function to be executed if the state is failure.
-     * @return {LoadableViewState<Value>} The original unchanged state.
+     * @param {(ErrorValue, Value | null) => void} perform - The callback function to be executed with the error and the previously loaded value, or null if
+     * there is none, if the state is failure.
+     * @return {LoadableViewState<Value, ErrorValue>} The original unchanged state.
      */
-    onFailure(perform: (error: Error) => void): LoadableViewState<Value> {
-        if (this.isFailure) perform((this.loadableViewState as FailureType).error);
+    onFailure(perform: (error: ErrorValue, previousValue: Value | null) => void): LoadableViewState<Value, ErrorValue> {
+        if (this.isFailure) perform((this.loadableViewState as FailureType<ErrorValue>).error, this.getOrNull());
         return this;
     }
 
     /**
-     * Transforms the encapsulated value if the state is a success and returns a new LoadableViewState reflecting the state of the transformation.
+     * Transforms the encapsulated value if the state is a success and returns a new LoadableViewState reflecting the state of the transformation. The
+     * previously loaded value kept by a refreshing or a failure state is transformed as well. The timestamps of the state are kept.
      *
      * @template Value
      * @template NewValue
-     * @param {(Value) => NewValue} transform - A function to transform the encapsulated value if the state is success.
-     * @return {LoadableViewState<NewValue>} A new LoadableViewState containing the transformed value, or the current state if the state is not success.
+     * @param {(Value) => NewValue} transform - A function to transform the encapsulated value if the state is success, or the previously loaded value.
+     * @return {LoadableViewState<NewValue, ErrorValue>} A new LoadableViewState containing the transformed value, or the current state if the state is not
+     * success.
      */
-    map<NewValue>(transform: (value: Value) => NewValue): LoadableViewState<NewValue> {
-        const value = this.getOrNull();
-        if (value != null) return LoadableViewState.success(transform(value));
+    map<NewValue>(transform: (value: Value) => NewValue): LoadableViewState<NewValue, ErrorValue> {
+        if (this.isSuccess) return new LoadableViewState(new SuccessType(transform((this.loadableViewState as SuccessType<Value>).value)), this.timestamps);
+        if (this.isRefreshing) {
+            const refreshingType = this.loadableViewState as RefreshingType<Value>;
+            return new LoadableViewState(
+                new RefreshingType(transform(refreshingType.previousValue), refreshingType.progress, refreshingType.retry),
+                this.timestamps,
+            );
+        }
+        if (this.loadableViewState instanceof RefreshFailureType) {
+            const refreshFailureType = this.loadableViewState as RefreshFailureType<Value, ErrorValue>;
+            return new LoadableViewState(
+                new RefreshFailureType(refreshFailureType.error, transform(refreshFailureType.previousValue), refreshFailureType.retry),
+                this.timestamps,
+            );
+        }
         if (this.isInitial) return LoadableViewState.initial();
-        if (this.isLoading) return LoadableViewState.loading();
-        return LoadableViewState.failure((this.loadableViewState as FailureType).error);
+        if (this.isLoading) return new LoadableViewState(this.loadableViewState as LoadingType, this.timestamps);
+        return new LoadableViewState(this.loadableViewState as FailureType<ErrorValue>, this.timestamps);
+    }
+
+    /**
+     * Transforms the encapsulated value into a new LoadableViewState if the state is a success and returns it, or the current state if the state is not
+     * success. A previously loaded value kept by a refreshing or a failure state is dropped, while the progress, the retry attempt, and the timestamps of
+     * the state are kept.
+     *
+     * @template Value
+     * @template NewValue
+     * @param {(Value) => LoadableViewState<NewValue, ErrorValue>} transform - A function returning a new state for the encapsulated value if the state is
+     * success.
+     * @return {LoadableViewState<NewValue, ErrorValue>} The state returned by the transformation, or the current state if the state is not success.
+     */
+    flatMap<NewValue>(transform: (value: Value) => LoadableViewState<NewValue, ErrorValue>): LoadableViewState<NewValue, ErrorValue> {
+        if (this.isSuccess) return transform((this.loadableViewState as SuccessType<Value>).value);
+        if (this.isInitial) return LoadableViewState.initial();
+        if (this.isLoading) {
+            const loadingType = this.loadableViewState as LoadingType;
+            return new LoadableViewState(new LoadingType(loadingType.progress, loadingType.retry), this.timestamps);
+        }
+        const failureType = this.loadableViewState as FailureType<ErrorValue>;
+        return new LoadableViewState(new FailureType(failureType.error, failureType.retry), this.timestamps);
+    }
+
+    /**
+     * Transforms the encapsulated error if the state is a failure and returns a new LoadableViewState reflecting the state of the transformation. The
+     * transformation can convert the error into another type, such as a domain error.
+     *
+     * @template Value
+     * @template ErrorValue
+     * @template NewErrorValue
+     * @param {(ErrorValue) => NewErrorValue} transform - A function to transform the encapsulated error if the state is failure.
+     * @return {LoadableViewState<Value, NewErrorValue>} A new LoadableViewState containing the transformed error, or the current state if the state is not
+     * failure.
+     */
+    mapError<NewErrorValue>(transform: (error: ErrorValue) => NewErrorValue): LoadableViewState<Value, NewErrorValue> {
+        if (this.loadableViewState instanceof RefreshFailureType) {
+            const refreshFailureType = this.loadableViewState as RefreshFailureType<Value, ErrorValue>;
+            return new LoadableViewState<Value, NewErrorValue>(
+                new RefreshFailureType(transform(refreshFailureType.error), refreshFailureType.previousValue, refreshFailureType.retry),
+                this.timestamps,
+            );
+        }
+        if (this.isFailure) {
+            const failureType = this.loadableViewState as FailureType<ErrorValue>;
+            return new LoadableViewState<Value, NewErrorValue>(new FailureType(transform(failureType.error), failureType.retry), this.timestamps);
+        }
+        return this as unknown as LoadableViewState<Value, NewErrorValue>;
+    }
+
+    /**
+     * Transforms the encapsulated error into a value if the state is a failure and returns a new LoadableViewState encapsulating it as a success.
+     *
+     * @template Value
+     * @param {(ErrorValue) => Value} transform - A function returning a fallback value for the encapsulated error if the state is failure.
+     * @return {LoadableViewState<Value, ErrorValue>} A new LoadableViewState containing the fallback value, or the current state if the state is not failure.
+     */
+    recover(transform: (error: ErrorValue) => Value): LoadableViewState<Value, ErrorValue> {
+        if (this.isFailure) return LoadableViewState.success(transform((this.loadableViewState as FailureType<ErrorValue>).error));
+        return this;
+    }
+
+    /**
+     * Transforms the encapsulated error into a new LoadableViewState if the state is a failure and returns it.
+     *
+     * @template Value
+     * @param {(ErrorValue) => LoadableViewState<Value, ErrorValue>} transform - A function returning a new state for the encapsulated error if the state is
+     * failure.
+     * @return {LoadableViewState<Value, ErrorValue>} The state returned by the transformation, or the current state if the state is not failure.
+     */
+    recoverWith(transform: (error: ErrorValue) => LoadableViewState<Value, ErrorValue>): LoadableViewState<Value, ErrorValue> {
+        if (this.isFailure) return transform((this.loadableViewState as FailureType<ErrorValue>).error);
+        return this;
+    }
+
+    /**
+     * Checks the encapsulated value against the given predicate if the state is a success and returns a failure if it does not match.
+     *
+     * @template Value
+     * @param {(Value) => boolean} predicate - A function returning true if the encapsulated value is accepted.
+     * @param {(Value) => ErrorValue} errorFactory - A function returning the error of the failure state for a rejected value.
+     * @return {LoadableViewState<Value, ErrorValue>} A new LoadableViewState with a failure state if the value is rejected, or the current state otherwise.
+     */
+    filter(predicate: (value: Value) => boolean, errorFactory: (value: Value) => ErrorValue): LoadableViewState<Value, ErrorValue> {
+        if (!this.isSuccess) return this;
+        const value = (this.loadableViewState as SuccessType<Value>).value;
+        return predicate(value) ? this : LoadableViewState.failure(errorFactory(value));
+    }
+
+    /**
+     * Returns a loading state that keeps the value of this state, if it is a success or keeps a previously loaded value, so it can still be shown while the
+     * value is loaded again. The time the value was loaded is kept.
+     *
+     * @template Value
+     * @param {Clock} clock - The optional clock recording when the loading started.
+     * @return {LoadableViewState<Value, ErrorValue>} A refreshing loading state if this state has a value, otherwise a plain loading state.
+     */
+    refresh(clock?: Clock): LoadableViewState<Value, ErrorValue> {
+        const latestValue = this.latestValue();
+        const timestamps = stamp(this.timestamps, 'loadingStartedAt', clock);
+        if (latestValue !== null) return new LoadableViewState(new RefreshingType(latestValue.value), timestamps);
+        return new LoadableViewState(loadingType, timestamps);
+    }
+
+    /**
+     * Returns a failure state encapsulating the given error that keeps the value of this state, if it is a success or keeps a previously loaded value, so it
+     * can still be shown after the failure. The time the value was loaded is kept.
+     *
+     * @template Value
+     * @param {ErrorValue} error - The error to be encapsulated within a failure state.
+     * @param {Clock} clock - The optional clock recording when the failure happened.
+     * @return {LoadableViewState<Value, ErrorValue>} A failure state keeping the previous value if this state has a value, otherwise a plain failure state.
+     */
+    fail(error: ErrorValue, clock?: Clock): LoadableViewState<Value, ErrorValue> {
+        const latestValue = this.latestValue();
+        const timestamps = stamp(this.timestamps, 'failedAt', clock);
+        if (latestValue !== null) return new LoadableViewState(new RefreshFailureType(error, latestValue.value), timestamps);
+        return new LoadableViewState(new FailureType(error), timestamps);
+    }
+
+    private latestValue(): { value: Value } | null {
+        if (this.loadableViewState instanceof SuccessType) return { value: (this.loadableViewState as SuccessType<Value>).value };
+        if (this.loadableViewState instanceof RefreshingType || this.loadableViewState instanceof RefreshFailureType) {
+            return { value: (this.loadableViewState as RefreshingType<Value> | RefreshFailureType<Value, ErrorValue>).previousValue };
+        }
+        return null;
+    }
+
+    /**
+     * Merges this state with the given one into a single state that succeeds with the pair of their values, or with the result of combining them, only when
+     * both succeeded. The merged state follows the same precedence rules as `all`, so both states must encapsulate Errors.
+     *
+     * @template Value
+     * @template OtherValue
+     * @template NewValue
+     * @param {LoadableViewState<OtherValue>} other - The state to merge with this one.
+     * @param {(Value, OtherValue) => NewValue} combine - A function to combine both values. Defaults to pairing them in a tuple.
+     * @return {LoadableViewState<NewValue>} A new instance of LoadableViewState with the merged state.
+     */
+    zip<OtherValue>(this: LoadableViewState<Value>, other: LoadableViewState<OtherValue>): LoadableViewState<[Value, OtherValue]>;
+    zip<OtherValue, NewValue>(
+        this: LoadableViewState<Value>,
+        other: LoadableViewState<OtherValue>,
+        combine: (value: Value, otherValue: OtherValue) => NewValue,
+    ): LoadableViewState<NewValue>;
+    zip<OtherValue, NewValue>(
+        this: LoadableViewState<Value>,
+        other: LoadableViewState<OtherValue>,
+        combine?: (value: Value, otherValue: OtherValue) => NewValue,
+    ): LoadableViewState<NewValue | [Value, OtherValue]> {
+        return LoadableViewState.all<[LoadableViewState<Value>, LoadableViewState<OtherValue>]>([this, other]).map(([value, otherValue]) =>
+            combine !== undefined ? combine(value, otherValue) : ([value, otherValue] as [Value, OtherValue]),
+        );
     }
 
     /**
@@ -230,18 +864,20 @@ export class LoadableViewState<Value> {
      * @template NewValue
      * @param {Object} handlers - An object containing handler functions for each possible state.
      * @param {(Value) => NewValue} handlers.onSuccess - A function to transform the encapsulated value if the state is success.
-     * @param {(Error) => NewValue} handlers.onFailure - A function to transform the encapsulated value if the state is error.
+     * @param {(ErrorValue, Value | null) => NewValue} handlers.onFailure - A function to transform the encapsulated error and the previously loaded value, or
+     * null if there is none, if the state is error.
      * @param {() => NewValue} handlers.onInitial - A function to transform the instance if the state is initial.
-     * @param {() => NewValue} handlers.onLoading - A function to transform the instance if the state is loading.
+     * @param {(Value | null, LoadingProgress | null) => NewValue} handlers.onLoading - A function to transform the previously loaded value and the
+     * progress, or null if there are none, if the state is loading.
      * @return {NewValue} - The result of onSuccess for the encapsulated value if this instance represents success or the result of onFailure function for the
      * encapsulated error if it is failure or the result of onInitial function if this instance represents initial or the result of onLoading if this instance
      * represents loading.
      */
     fold<NewValue>(handlers: {
         onSuccess: (value: Value) => NewValue;
-        onFailure: (error: Error) => NewValue;
+        onFailure: (error: ErrorValue, previousValue: Value | null) => NewValue;
         onInitial: () => NewValue;
-        onLoading: () => NewValue;
+        onLoading: (previousValue: Value | null, progress: LoadingProgress | null) => NewValue;
     }): NewValue;
 
     /**
@@ -251,32 +887,34 @@ export class LoadableViewState<Value> {
      * @template Value
      * @template NewValue
      * @param {(Value) => NewValue} onSuccess - A function to transform the encapsulated value if the state is success.
-     * @param {(Error) => NewValue} onFailure - A function to transform the encapsulated value if the state is error.
+     * @param {(ErrorValue, Value | null) => NewValue} onFailure - A function to transform the encapsulated error and the previously loaded value, or null if
+     * there is none, if the state is error.
      * @param {() => NewValue} onInitial - A function to transform the instance if the state is initial.
-     * @param {() => NewValue} onLoading - A function to transform the instance if the state is loading.
+     * @param {(Value | null, LoadingProgress | null) => NewValue} onLoading - A function to transform the previously loaded value and the progress, or
+     * null if there are none, if the state is loading.
      * @return {NewValue} The result of onSuccess for the encapsulated value if this instance represents success or the result of onFailure function for the
      * encapsulated error if it is failure or the result of onInitial function if this instance represents initial or the result of onLoading if this instance
      * represents loading.
      */
     fold<NewValue>(
         onSuccess: (value: Value) => NewValue,
-        onFailure: (error: Error) => NewValue,
+        onFailure: (error: ErrorValue, previousValue: Value | null) => NewValue,
         onInitial: () => NewValue,
-        onLoading: () => NewValue,
+        onLoading: (previousValue: Value | null, progress: LoadingProgress | null) => NewValue,
     ): NewValue;
 
     fold<NewValue>(
         handlers:
             | {
                   onSuccess: (value: Value) => NewValue;
-                  onFailure: (error: Error) => NewValue;
+                  onFailure: (error: ErrorValue, previousValue: Value | null) => NewValue;
                   onInitial: () => NewValue;
-                  onLoading: () => NewValue;
+                  onLoading: (previousValue: Value | null, progress: LoadingProgress | null) => NewValue;
               }
             | ((value: Value) => NewValue),
-        onFailure?: (error: Error) => NewValue,
+        onFailure?: (error: ErrorValue, previousValue: Value | null) => NewValue,
         onInitial?: () => NewValue,
-        onLoading?: () => NewValue,
+        onLoading?: (previousValue: Value | null, progress: LoadingProgress | null) => NewValue,
     ): NewValue {
         if (typeof handlers === 'object') {
             const { onSuccess, onFailure, onInitial, onLoading } = handlers;
@@ -285,20 +923,144 @@ export class LoadableViewState<Value> {
 
         if (this.isSuccess) return (handlers as (value: Value) => NewValue)((this.loadableViewState as { value: Value }).value);
         if (this.isInitial) return (onInitial as () => NewValue)();
-        if (this.isLoading) return (onLoading as () => NewValue)();
-        return (onFailure as (error: Error) => NewValue)((this.loadableViewState as { error: Error }).error);
+        if (this.isLoading) {
+            return (onLoading as (previousValue: Value | null, progress: LoadingProgress | null) => NewValue)(this.getOrNull(), this.progressOrNull());
+        }
+        return (onFailure as (error: ErrorValue, previousValue: Value | null) => NewValue)(
+            (this.loadableViewState as { error: ErrorValue }).error,
+            this.getOrNull(),
+        );
+    }
+
+    /**
+     * Transforms the current state with the handler given for it, or with the `otherwise` function if there is no handler for it.
+     *
+     * @template Value
+     * @template NewValue
+     * @param {Object} handlers - An object containing handler functions for some of the states and an `otherwise` function for the rest.
+     * @param {(Value) => NewValue} handlers.onSuccess - An optional function to transform the encapsulated value if the state is success.
+     * @param {(ErrorValue, Value | null) => NewValue} handlers.onFailure - An optional function to transform the encapsulated error and the previously loaded
+     * value, or null if there is none, if the state is error.
+     * @param {() => NewValue} handlers.onInitial - An optional function to transform the instance if the state is initial.
+     * @param {(Value | null, LoadingProgress | null) => NewValue} handlers.onLoading - An optional function to transform the previously loaded value and the
+     * progress, or null if there are none, if the state is loading.
+     * @param {() => NewValue} handlers.otherwise - A function returning the result for the states without a handler.
+     * @return {NewValue} The result of the handler for the current state, or the result of `otherwise` if there is none.
+     */
+    match<NewValue>(handlers: {
+        onSuccess?: (value: Value) => NewValue;
+        onFailure?: (error: ErrorValue, previousValue: Value | null) => NewValue;
+        onInitial?: () => NewValue;
+        onLoading?: (previousValue: Value | null, progress: LoadingProgress | null) => NewValue;
+        otherwise: () => NewValue;
+    }): NewValue {
+        const { onSuccess, onFailure, onInitial, onLoading, otherwise } = handlers;
+        return this.fold(onSuccess ?? otherwise, onFailure ?? otherwise, onInitial ?? otherwise, onLoading ?? otherwise);
+    }
+
+    /**
+     * Converts the current state into a plain discriminated union, so it can be narrowed by its `status` in a `switch` statement.
+     *
+     * @template Value
+     * @return {LoadableViewStateUnion<Value, ErrorValue>} The plain discriminated union describing the current state.
+     */
+    toUnion(): LoadableViewStateUnion<Value, ErrorValue> {
+        const retry = this.retryOrNull();
+        return this.fold<LoadableViewStateUnion<Value, ErrorValue>>({
+            onSuccess: (value) => ({ status: 'success', value }),
+            onFailure: (error, previousValue) => ({ status: 'failure', error, previousValue, retry }),
+            onInitial: () => ({ status: 'initial' }),
+            onLoading: (previousValue, progress) => ({ status: 'loading', previousValue, progress, retry }),
+        });
+    }
+
+    /**
+     * Returns true if the given state is in the same case as this one, with equal values, the same error, and equal progress and attempt. Errors are
+     * compared with `Object.is` unless an error comparator is given. Timestamps are not compared.
+     *
+     * @template Value
+     * @param {LoadableViewState<Value, ErrorValue>} other - The state to compare with.
+     * @param {(Value, Value) => boolean} valueEquals - A function that returns true if two values are equal. Defaults to `Object.is`.
+     * @param {(ErrorValue, ErrorValue) => boolean} errorEquals - A function that returns true if two errors are equal. Defaults to `Object.is`.
+     * @return {boolean} True if both states are equal.
+     */
+    equals(
+        other: LoadableViewState<Value, ErrorValue>,
+        valueEquals: (value: Value, otherValue: Value) => boolean = Object.is,
+        errorEquals: (error: ErrorValue, otherError: ErrorValue) => boolean = Object.is,
+    ): boolean {
+        if (this === other) return true;
+        const latestValue = this.latestValue();
+        const otherLatestValue = other.latestValue();
+        const error = this.errorOrNull();
+        const otherError = other.errorOrNull();
+        return (
+            this.status === other.status &&
+            (latestValue === null || otherLatestValue === null ? latestValue === otherLatestValue : valueEquals(latestValue.value, otherLatestValue.value)) &&
+            (error === null || otherError === null ? error === otherError : errorEquals(error, otherError)) &&
+            LoadingProgress.equals(this.progressOrNull(), other.progressOrNull()) &&
+            RetryAttempt.equals(this.retryOrNull(), other.retryOrNull())
+        );
+    }
+
+    /**
+     * Converts the current state into its versioned wire format, together with the times it recorded. Unless an error replacer is given, the error of a
+     * failure state is converted into its name, message, cause, and code, after converting it into an Error if it is not one.
+     *
+     * This method is called by `JSON.stringify`, in which case the encapsulated value is left for `JSON.stringify` to convert.
+     *
+     * @template Value, ErrorJSON
+     * @param {(Value) => unknown} replacer - A function to convert the encapsulated value into its wire format. Defaults to returning it unchanged.
+     * @param {(ErrorValue) => ErrorJSON} errorReplacer - A function to convert the error into its wire format. Defaults to `serializeError`.
+     * @return {LoadableViewStateJSON<ErrorJSON>} The wire format of the current state.
+     */
+    toJSON<ErrorJSON = SerializedError>(
+        replacer?: (value: Value) => unknown,
+        errorReplacer?: (error: ErrorValue) => ErrorJSON,
+    ): LoadableViewStateJSON<ErrorJSON> {
+        const replace = typeof replacer === 'function' ? replacer : (value: Value): unknown => value;
+        const replaceError = errorReplacer ?? ((error: ErrorValue) => serializeError(toError(error)) as unknown as ErrorJSON);
+        const latestValue = this.latestValue();
+        const previousValueJSON = latestValue !== null ? { previousValue: replace(latestValue.value) } : {};
+        const retry = this.retryOrNull();
+        const retryJSON = retry !== null ? { retry } : {};
+        const timestamps = this.timestamps;
+        return this.fold<LoadableViewStateJSON<ErrorJSON>>(
+            (value) => ({ version: VIEW_STATE_JSON_VERSION, type: 'success', value: replace(value), ...timestamps }),
+            (error) => ({ version: VIEW_STATE_JSON_VERSION, type: 'failure', error: replaceError(error), ...previousValueJSON, ...retryJSON, ...timestamps }),
+            () => ({ version: VIEW_STATE_JSON_VERSION, type: 'initial', ...timestamps }),
+            (_previousValue, progress) => ({
+                version: VIEW_STATE_JSON_VERSION,
+                type: 'loading',
+                ...previousValueJSON,
+                ...(progress !== null && { progress }),
+                ...retryJSON,
+                ...timestamps,
+            }),
+        );
     }
 
     /**
      * Converts the current state into a string representation.
      *
      * @return {string} A string describing the state: "Initial" if in the initial state, "Success: <value>" if the state is successful, "Loading" if in the
-     * loading state, or "Failure: <error>" if the state is a failure.
+     * loading state, "Refreshing: <value>" if in a loading state keeping the previous value, both followed by " (<progress>)" if they report a progress, or
+     * "Failure: <error>" if the state is a failure, followed by " (previous: <value>)" if it keeps the previous value. Loading and failure states of a
+     * retried load are followed by " (attempt <attempt>/<maxAttempts>)".
      */
     toString(): string {
         if (this.isInitial) return 'Initial';
         if (this.isSuccess) return `Success: ${String((this.loadableViewState as SuccessType<Value>).value)}`;
-        if (this.isLoading) return 'Loading';
-        return `Failure: ${String((this.loadableViewState as FailureType).error)}`;
+        const retry = this.retryOrNull();
+        const retryString = retry !== null ? ` (${retry})` : '';
+        const progress = this.progressOrNull();
+        const progressString = progress !== null ? ` (${progress})` : '';
+        if (this.isRefreshing) return `Refreshing: ${String((this.loadableViewState as RefreshingType<Value>).previousValue)}${progressString}${retryString}`;
+        if (this.isLoading) return `Loading${progressString}${retryString}`;
+        if (this.loadableViewState instanceof RefreshFailureType) {
+            const previousValue = (this.loadableViewState as RefreshFailureType<Value, ErrorValue>).previousValue;
+            return `Failure: ${String(this.loadableViewState.error)} (previous: ${String(previousValue)})${retryString}`;
+        }
+        return `Failure: ${String((this.loadableViewState as FailureType<ErrorValue>).error)}${retryString}`;
     }
 }
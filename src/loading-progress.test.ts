@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { createProgressListener, LoadingProgress, ProgressEventLike } from './loading-progress';
+import { LoadableViewState } from './loadable-view-state';
+
+describe('LoadingProgress', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('of', () => {
+        test('given a loaded and a total amount when creating a progress then the fraction is computed', () => {
+            const progress = LoadingProgress.of(25, 100, 'uploading');
+            expect(progress.fraction).toBe(0.25);
+            expect(progress.loaded).toBe(25);
+            expect(progress.total).toBe(100);
+            expect(progress.phase).toBe('uploading');
+        });
+
+        test.each([
+            [150, 100, 1],
+            [10, 0, 0],
+        ])('given %p loaded out of %p when creating a progress then the fraction is %p', (loaded, total, expectedFraction) => {
+            expect(LoadingProgress.of(loaded, total).fraction).toBe(expectedFraction);
+        });
+    });
+
+    describe('fromFraction', () => {
+        test.each([
+            [0.5, 0.5],
+            [-1, 0],
+            [2, 1],
+        ])('given a fraction of %p when creating a progress then the fraction is %p', (fraction, expectedFraction) => {
+            const progress = LoadingProgress.fromFraction(fraction);
+            expect(progress.fraction).toBe(expectedFraction);
+            expect(progress.loaded).toBeNull();
+            expect(progress.total).toBeNull();
+            expect(progress.phase).toBeNull();
+        });
+    });
+
+    describe('fromEvent', () => {
+        test('given a determinate event when creating a progress then the loaded and total amounts are taken', () => {
+            expect(LoadingProgress.fromEvent({ loaded: 3, total: 4, lengthComputable: true })).toEqual(LoadingProgress.of(3, 4));
+        });
+
+        test.each<[ProgressEventLike]>([[{ loaded: 3, total: 0, lengthComputable: false }], [{ loaded: 3 }]])(
+            'given the indeterminate event %p when creating a progress then null is retrieved',
+            (event) => {
+                expect(LoadingProgress.fromEvent(event)).toBeNull();
+            },
+        );
+    });
+
+    describe('toJSON and fromJSON', () => {
+        test.each([[LoadingProgress.of(1, 3, 'exporting')], [LoadingProgress.fromFraction(0.75)]])(
+            'given %p when stringifying and restoring then an equal progress is retrieved',
+            (progress) => {
+                expect(LoadingProgress.fromJSON(JSON.parse(JSON.stringify(progress)))).toEqual(progress);
+            },
+        );
+
+        test.each([[null], [{ loaded: 1 }], ['50%']])('given %p when restoring then an error is thrown', (json) => {
+            expect(() => LoadingProgress.fromJSON(json)).toThrow();
+        });
+    });
+
+    describe('toString', () => {
+        test.each([
+            [LoadingProgress.fromFraction(0.333), '33%'],
+            [LoadingProgress.of(1, 2, 'uploading'), '50% uploading'],
+        ])('given %p when converting to string then %p is returned', (progress, expectedString) => {
+            expect(progress.toString()).toBe(expectedString);
+        });
+    });
+
+    describe('equals', () => {
+        test.each([
+            [LoadingProgress.of(1, 2, 'uploading'), LoadingProgress.of(1, 2, 'uploading'), true],
+            [LoadingProgress.of(1, 2), LoadingProgress.fromFraction(0.5), false],
+            [LoadingProgress.of(1, 2), LoadingProgress.of(1, 2, 'uploading'), false],
+            [LoadingProgress.of(1, 2), null, false],
+            [null, null, true],
+        ])('given %p and %p when comparing them then %p is returned', (progress, other, expectedEquality) => {
+            expect(LoadingProgress.equals(progress, other)).toBe(expectedEquality);
+        });
+    });
+
+    describe('createProgressListener', () => {
+        const onStateChange = jest.fn<(viewState: LoadableViewState<string>) => void>();
+
+        test('given a stream of progress events when listening then a progress-carrying state is emitted for every determinate event', () => {
+            const listener = createProgressListener((progress) => LoadableViewState.loading<string>(progress), onStateChange, 'uploading');
+
+            listener({ loaded: 1, total: 4, lengthComputable: true });
+            listener({ loaded: 2, total: 0, lengthComputable: false });
+            listener({ loaded: 4, total: 4, lengthComputable: true });
+
+            expect(onStateChange.mock.calls).toEqual([
+                [LoadableViewState.loading(LoadingProgress.of(1, 4, 'uploading'))],
+                [LoadableViewState.loading(LoadingProgress.of(4, 4, 'uploading'))],
+            ]);
+        });
+    });
+});
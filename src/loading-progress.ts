@@ -0,0 +1,120 @@
+/**
+ * The shape of a progress event, such as the `ProgressEvent` emitted by `XMLHttpRequest` uploads and downloads.
+ */
+export interface ProgressEventLike {
+    readonly loaded: number;
+    readonly total?: number;
+    readonly lengthComputable?: boolean;
+}
+
+/**
+ * Represents the determinate progress of a loading state, as a fraction between 0 and 1, optionally with the loaded and total amounts and a phase label.
+ */
+export class LoadingProgress {
+    private constructor(
+        public readonly fraction: number,
+        public readonly loaded: number | null,
+        public readonly total: number | null,
+        public readonly phase: string | null,
+    ) {}
+
+    /**
+     * Returns the progress of the given loaded amount out of the given total amount.
+     *
+     * @param {number} loaded - The loaded amount.
+     * @param {number} total - The total amount.
+     * @param {string} phase - The optional label of the current phase.
+     * @return {LoadingProgress} A new instance of LoadingProgress.
+     */
+    static of(loaded: number, total: number, phase?: string): LoadingProgress {
+        return new LoadingProgress(total > 0 ? clampFraction(loaded / total) : 0, loaded, total, phase ?? null);
+    }
+
+    /**
+     * Returns the progress of the given fraction, which is clamped between 0 and 1.
+     *
+     * @param {number} fraction - The completed fraction, between 0 and 1.
+     * @param {string} phase - The optional label of the current phase.
+     * @return {LoadingProgress} A new instance of LoadingProgress.
+     */
+    static fromFraction(fraction: number, phase?: string): LoadingProgress {
+        return new LoadingProgress(clampFraction(fraction), null, null, phase ?? null);
+    }
+
+    /**
+     * Returns the progress reported by the given progress event, or null if its total amount is unknown.
+     *
+     * @param {ProgressEventLike} event - The progress event.
+     * @param {string} phase - The optional label of the current phase.
+     * @return {LoadingProgress | null} A new instance of LoadingProgress, or null if the event does not report a determinate progress.
+     */
+    static fromEvent(event: ProgressEventLike, phase?: string): LoadingProgress | null {
+        if (event.lengthComputable === false || event.total === undefined || event.total <= 0) return null;
+        return LoadingProgress.of(event.loaded, event.total, phase);
+    }
+
+    /**
+     * Returns an instance restored from the wire format produced by `JSON.stringify`.
+     *
+     * @param {unknown} json - The wire format of the progress.
+     * @return {LoadingProgress} A new instance of LoadingProgress.
+     * @throws {Error} If the given value is not the wire format of a progress.
+     */
+    static fromJSON(json: unknown): LoadingProgress {
+        const { fraction, loaded, total, phase } = (json ?? {}) as Record<string, unknown>;
+        if (typeof fraction !== 'number') throw new Error('invalid loading progress json');
+        return new LoadingProgress(
+            clampFraction(fraction),
+            typeof loaded === 'number' ? loaded : null,
+            typeof total === 'number' ? total : null,
+            typeof phase === 'string' ? phase : null,
+        );
+    }
+
+    /**
+     * Returns true if the given progresses report the same fraction, amounts, and phase, or if both are null.
+     *
+     * @param {LoadingProgress | null} progress - The first progress.
+     * @param {LoadingProgress | null} other - The second progress.
+     * @return {boolean} True if both progresses are equal.
+     */
+    static equals(progress: LoadingProgress | null, other: LoadingProgress | null): boolean {
+        if (progress === null || other === null) return progress === other;
+        return progress.fraction === other.fraction && progress.loaded === other.loaded && progress.total === other.total && progress.phase === other.phase;
+    }
+
+    /**
+     * Converts the progress into a string representation.
+     *
+     * @return {string} The percentage of the progress, followed by the phase label if there is one.
+     */
+    toString(): string {
+        const percentage = `${Math.round(this.fraction * 100)}%`;
+        return this.phase !== null ? `${percentage} ${this.phase}` : percentage;
+    }
+}
+
+function clampFraction(fraction: number): number {
+    return Math.min(Math.max(fraction, 0), 1);
+}
+
+/**
+ * Returns a listener for a stream of progress events that converts every determinate event into a progress-carrying state and emits it to the given
+ * callback. Events whose total amount is unknown are ignored.
+ *
+ * @template State
+ * @param {(LoadingProgress) => State} toState - A function returning the state carrying the given progress, such as `LoadableViewState.loading`.
+ * @param {(State) => void} onStateChange - The callback function to be executed with every state.
+ * @param {string} phase - The optional label of the current phase.
+ * @return {(ProgressEventLike) => void} The listener to be registered for the progress events.
+ */
+export function createProgressListener<State>(
+    toState: (progress: LoadingProgress) => State,
+    onStateChange: (state: State) => void,
+    phase?: string,
+): (event: ProgressEventLike) => void {
+    return (event) => {
+        const progress = LoadingProgress.fromEvent(event, phase);
+        if (progress !== null) onStateChange(toState(progress));
+    };
+}
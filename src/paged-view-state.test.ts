@@ -0,0 +1,129 @@
+import { describe, expect, test } from '@jest/globals';
+import { LoadableViewState } from './loadable-view-state';
+import { PagedViewState } from './paged-view-state';
+
+describe('PagedViewState', () => {
+    const firstPage = ['a', 'b'];
+    const secondPage = ['c'];
+    const error = Error('error');
+
+    const givenAnInitialPagedViewState = () => PagedViewState.initial<string>();
+    const givenAPagedViewStateWithOnePage = () => PagedViewState.initial<string>().loadFirstPage().appendPage(firstPage, 'page-2');
+    const givenAPagedViewStateWithTwoPages = () => givenAPagedViewStateWithOnePage().loadNextPage().appendPage(secondPage, null);
+
+    describe('initial', () => {
+        test('given an initial paged view state when getting its values then there are no items nor loads', () => {
+            const pagedViewState = givenAnInitialPagedViewState();
+            expect(pagedViewState.items).toEqual([]);
+            expect(pagedViewState.hasMore).toBeFalsy();
+            expect(pagedViewState.isLoading).toBeFalsy();
+            expect(pagedViewState.canLoadNextPage).toBeFalsy();
+            expect(pagedViewState.firstPageState).toEqual(LoadableViewState.initial());
+        });
+    });
+
+    describe('first page', () => {
+        test('given an initial paged view state when loading the first page then the first page is loading', () => {
+            const pagedViewState = givenAnInitialPagedViewState().loadFirstPage();
+            expect(pagedViewState.firstPageState.isLoading).toBeTruthy();
+            expect(pagedViewState.isLoading).toBeTruthy();
+        });
+
+        test('given a first page being loaded when appending a page then it is the first page', () => {
+            const pagedViewState = givenAPagedViewStateWithOnePage();
+            expect(pagedViewState.pages).toEqual([firstPage]);
+            expect(pagedViewState.items).toEqual(firstPage);
+            expect(pagedViewState.nextCursor).toBe('page-2');
+            expect(pagedViewState.hasMore).toBeTruthy();
+            expect(pagedViewState.firstPageState).toEqual(LoadableViewState.success(firstPage));
+            expect(pagedViewState.canLoadNextPage).toBeTruthy();
+        });
+
+        test('given a first page being loaded when failing the first page then the first page is a failure without items', () => {
+            const pagedViewState = givenAnInitialPagedViewState().loadFirstPage().failFirstPage(error);
+            expect(pagedViewState.firstPageState).toEqual(LoadableViewState.failure(error));
+            expect(pagedViewState.items).toEqual([]);
+        });
+    });
+
+    describe('next page', () => {
+        test('given a loaded first page when loading the next page then the loaded items are kept', () => {
+            const pagedViewState = givenAPagedViewStateWithOnePage().loadNextPage();
+            expect(pagedViewState.nextPageState.isLoading).toBeTruthy();
+            expect(pagedViewState.items).toEqual(firstPage);
+            expect(pagedViewState.canLoadNextPage).toBeFalsy();
+        });
+
+        test('given a next page being loaded when appending a page then the items of both pages are retrieved', () => {
+            const pagedViewState = givenAPagedViewStateWithTwoPages();
+            expect(pagedViewState.pages).toEqual([firstPage, secondPage]);
+            expect(pagedViewState.items).toEqual(['a', 'b', 'c']);
+            expect(pagedViewState.nextPageState).toEqual(LoadableViewState.success(secondPage));
+            expect(pagedViewState.hasMore).toBeFalsy();
+        });
+
+        test('given a next page being loaded when failing the next page then the loaded pages and the cursor are kept', () => {
+            const pagedViewState = givenAPagedViewStateWithOnePage().loadNextPage().failNextPage(error);
+            expect(pagedViewState.nextPageState).toEqual(LoadableViewState.failure(error));
+            expect(pagedViewState.items).toEqual(firstPage);
+            expect(pagedViewState.nextCursor).toBe('page-2');
+            expect(pagedViewState.canLoadNextPage).toBeTruthy();
+        });
+
+        test.each([[givenAnInitialPagedViewState()], [givenAPagedViewStateWithTwoPages()]])(
+            'given %p without a next page when loading the next page then the state is unchanged',
+            (pagedViewState) => {
+                expect(pagedViewState.loadNextPage()).toBe(pagedViewState);
+            },
+        );
+    });
+
+    describe('refresh', () => {
+        test('given loaded pages when refreshing then the loaded pages are kept while the refresh is loading', () => {
+            const pagedViewState = givenAPagedViewStateWithOnePage().loadNextPage().refresh();
+            expect(pagedViewState.refreshState.isLoading).toBeTruthy();
+            expect(pagedViewState.nextPageState.isInitial).toBeTruthy();
+            expect(pagedViewState.items).toEqual(firstPage);
+        });
+
+        test('given a refresh being loaded when replacing the pages then only the refreshed page is kept', () => {
+            const pagedViewState = givenAPagedViewStateWithTwoPages().refresh().replacePages(['z'], 'page-2');
+            expect(pagedViewState.pages).toEqual([['z']]);
+            expect(pagedViewState.refreshState).toEqual(LoadableViewState.success(['z']));
+            expect(pagedViewState.hasMore).toBeTruthy();
+        });
+
+        test('given a refresh being loaded when failing the refresh then the loaded pages are kept', () => {
+            const pagedViewState = givenAPagedViewStateWithTwoPages().refresh().failRefresh(error);
+            expect(pagedViewState.refreshState).toEqual(LoadableViewState.failure(error));
+            expect(pagedViewState.items).toEqual(['a', 'b', 'c']);
+        });
+
+        test('given no loaded pages when refreshing then the first page is loading', () => {
+            const pagedViewState = givenAnInitialPagedViewState().refresh();
+            expect(pagedViewState.firstPageState.isLoading).toBeTruthy();
+            expect(pagedViewState.refreshState.isInitial).toBeTruthy();
+        });
+    });
+
+    describe('map', () => {
+        test('given loaded pages when mapping then every item is transformed', () => {
+            const pagedViewState = givenAPagedViewStateWithTwoPages().map((item) => item.toUpperCase());
+            expect(pagedViewState.pages).toEqual([['A', 'B'], ['C']]);
+            expect(pagedViewState.nextPageState).toEqual(LoadableViewState.success(['C']));
+        });
+    });
+
+    describe('toString', () => {
+        test.each([
+            [givenAnInitialPagedViewState(), 'Paged: 0 items in 0 pages'],
+            [givenAPagedViewStateWithOnePage().loadNextPage(), 'Paged: 2 items in 1 pages, has more, first page: Success, next page: Loading'],
+            [
+                givenAPagedViewStateWithOnePage().loadNextPage().failNextPage(error),
+                'Paged: 2 items in 1 pages, has more, first page: Success, next page: Failure: Error: error',
+            ],
+        ])('given %p when converting to string then %p is returned', (pagedViewState, expectedString) => {
+            expect(pagedViewState.toString()).toBe(expectedString);
+        });
+    });
+});
@@ -0,0 +1,201 @@
+import { LoadableViewState } from './loadable-view-state';
+
+/**
+ * Represents the state of a list loaded page by page. It keeps the loaded pages and the cursor of the next page, and tracks separately the load of the first
+ * page, of the next page, and of a refresh, so that the loaded pages can still be shown while more pages are loaded or after a page failed to load.
+ *
+ * Every load state is a LoadableViewState whose success value is the page loaded by that load.
+ *
+ * @template Item The type of the items of the list.
+ * @template Cursor The type of the key identifying the next page.
+ */
+export class PagedViewState<Item, Cursor = string> {
+    private constructor(
+        public readonly pages: readonly (readonly Item[])[],
+        public readonly nextCursor: Cursor | null,
+        public readonly firstPageState: LoadableViewState<readonly Item[]>,
+        public readonly nextPageState: LoadableViewState<readonly Item[]>,
+        public readonly refreshState: LoadableViewState<readonly Item[]>,
+    ) {}
+
+    /**
+     * Returns an instance without pages, none of them being loaded.
+     *
+     * @template Item
+     * @template Cursor
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState in the initial state.
+     */
+    static initial<Item, Cursor = string>(): PagedViewState<Item, Cursor> {
+        return new PagedViewState<Item, Cursor>([], null, LoadableViewState.initial(), LoadableViewState.initial(), LoadableViewState.initial());
+    }
+
+    /**
+     * Returns the items of all the loaded pages, in order.
+     *
+     * @return {Item[]} The items of all the loaded pages.
+     */
+    get items(): readonly Item[] {
+        return this.pages.reduce<Item[]>((items, page) => items.concat(page), []);
+    }
+
+    /**
+     * Returns true if there is a next page to load.
+     *
+     * @return {boolean} True if the first page was loaded and the cursor of the next page is known.
+     */
+    get hasMore(): boolean {
+        return this.nextCursor !== null;
+    }
+
+    /**
+     * Returns true if the first page, the next page, or a refresh is being loaded.
+     *
+     * @return {boolean} True if any page is being loaded.
+     */
+    get isLoading(): boolean {
+        return this.firstPageState.isLoading || this.nextPageState.isLoading || this.refreshState.isLoading;
+    }
+
+    /**
+     * Returns true if the next page can be loaded: the first page was loaded, there is a next page, and no page is being loaded.
+     *
+     * @return {boolean} True if the next page can be loaded.
+     */
+    get canLoadNextPage(): boolean {
+        return this.pages.length > 0 && this.hasMore && !this.isLoading;
+    }
+
+    /**
+     * Returns a state loading the first page. The pages loaded so far are dropped.
+     *
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState loading the first page.
+     */
+    loadFirstPage(): PagedViewState<Item, Cursor> {
+        return new PagedViewState<Item, Cursor>([], null, LoadableViewState.loading(), LoadableViewState.initial(), LoadableViewState.initial());
+    }
+
+    /**
+     * Returns a state loading the next page that keeps the loaded pages. Returns this state unchanged if there is no next page to load.
+     *
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState loading the next page, or the current state.
+     */
+    loadNextPage(): PagedViewState<Item, Cursor> {
+        if (this.pages.length === 0 || !this.hasMore) return this;
+        return new PagedViewState(this.pages, this.nextCursor, this.firstPageState, LoadableViewState.loading(), this.refreshState);
+    }
+
+    /**
+     * Returns a state refreshing the list from its first page that keeps the loaded pages, so they can still be shown while the list is loaded again. A
+     * next page being loaded is abandoned.
+     *
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState loading a refresh.
+     */
+    refresh(): PagedViewState<Item, Cursor> {
+        if (this.pages.length === 0) return this.loadFirstPage();
+        return new PagedViewState(this.pages, this.nextCursor, this.firstPageState, LoadableViewState.initial(), LoadableViewState.loading());
+    }
+
+    /**
+     * Returns a state with the given page appended to the loaded pages. The page is the first one if no page was loaded yet, otherwise the next one.
+     *
+     * @param {Item[]} items - The items of the loaded page.
+     * @param {Cursor | null} nextCursor - The key of the page following the loaded one, or null if it is the last page.
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState with the appended page.
+     */
+    appendPage(items: readonly Item[], nextCursor: Cursor | null): PagedViewState<Item, Cursor> {
+        if (this.pages.length === 0) {
+            return new PagedViewState<Item, Cursor>([items], nextCursor, LoadableViewState.success(items), LoadableViewState.initial(), this.refreshState);
+        }
+        return new PagedViewState(this.pages.concat([items]), nextCursor, this.firstPageState, LoadableViewState.success(items), this.refreshState);
+    }
+
+    /**
+     * Returns a state whose pages are replaced by the given first page, as loaded by a refresh.
+     *
+     * @param {Item[]} items - The items of the refreshed first page.
+     * @param {Cursor | null} nextCursor - The key of the page following the refreshed one, or null if it is the last page.
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState with the refreshed first page only.
+     */
+    replacePages(items: readonly Item[], nextCursor: Cursor | null): PagedViewState<Item, Cursor> {
+        return new PagedViewState<Item, Cursor>(
+            [items],
+            nextCursor,
+            LoadableViewState.success(items),
+            LoadableViewState.initial(),
+            LoadableViewState.success(items),
+        );
+    }
+
+    /**
+     * Returns a state whose first page failed to load with the given error.
+     *
+     * @param {Error} error - The error the first page failed with.
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState with a failed first page.
+     */
+    failFirstPage(error: Error): PagedViewState<Item, Cursor> {
+        return new PagedViewState<Item, Cursor>([], null, LoadableViewState.failure(error), LoadableViewState.initial(), LoadableViewState.initial());
+    }
+
+    /**
+     * Returns a state whose next page failed to load with the given error. The loaded pages and the cursor are kept, so the next page can be loaded again.
+     *
+     * @param {Error} error - The error the next page failed with.
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState with a failed next page.
+     */
+    failNextPage(error: Error): PagedViewState<Item, Cursor> {
+        return new PagedViewState(this.pages, this.nextCursor, this.firstPageState, LoadableViewState.failure(error), this.refreshState);
+    }
+
+    /**
+     * Returns a state whose refresh failed with the given error. The loaded pages are kept.
+     *
+     * @param {Error} error - The error the refresh failed with.
+     * @return {PagedViewState<Item, Cursor>} A new instance of PagedViewState with a failed refresh.
+     */
+    failRefresh(error: Error): PagedViewState<Item, Cursor> {
+        return new PagedViewState(this.pages, this.nextCursor, this.firstPageState, this.nextPageState, LoadableViewState.failure(error));
+    }
+
+    /**
+     * Transforms every loaded item and returns a new PagedViewState with the transformed pages and the same load states.
+     *
+     * @template NewItem
+     * @param {(Item) => NewItem} transform - A function to transform every loaded item.
+     * @return {PagedViewState<NewItem, Cursor>} A new instance of PagedViewState with the transformed items.
+     */
+    map<NewItem>(transform: (item: Item) => NewItem): PagedViewState<NewItem, Cursor> {
+        const transformPage = (page: readonly Item[]): readonly NewItem[] => page.map(transform);
+        return new PagedViewState(
+            this.pages.map(transformPage),
+            this.nextCursor,
+            this.firstPageState.map(transformPage),
+            this.nextPageState.map(transformPage),
+            this.refreshState.map(transformPage),
+        );
+    }
+
+    /**
+     * Converts the current state into a string representation.
+     *
+     * @return {string} A string describing the number of loaded items and pages, whether there are more pages, and the load states that are not initial.
+     */
+    toString(): string {
+        const loadStates = [
+            ['first page', this.firstPageState],
+            ['next page', this.nextPageState],
+            ['refresh', this.refreshState],
+        ] as const;
+        return [`Paged: ${this.items.length} items in ${this.pages.length} pages${this.hasMore ? ', has more' : ''}`]
+            .concat(loadStates.filter(([, loadState]) => !loadState.isInitial).map(([name, loadState]) => `${name}: ${statusOf(loadState)}`))
+            .join(', ');
+    }
+}
+
+function statusOf(viewState: LoadableViewState<unknown>): string {
+    return viewState.fold(
+        () => 'Success',
+        (error) => `Failure: ${String(error)}`,
+        () => 'Initial',
+        () => 'Loading',
+    );
+}
@@ -0,0 +1,2 @@
+export * from './use-loadable';
+export * from './use-editable';
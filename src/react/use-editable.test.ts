@@ -0,0 +1,115 @@
+/**
+ * @jest-environment jsdom
+ */
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { act, renderHook } from '@testing-library/react';
+import { systemClock } from '../clock';
+import { EditableViewState } from '../editable-view-state';
+import { useEditable } from './use-editable';
+
+describe('useEditable', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.spyOn(Date, 'now').mockReturnValue(1000);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const givenADeferred = () => {
+        let resolve: () => void = () => {};
+        const promise = new Promise<void>((promiseResolve) => {
+            resolve = promiseResolve;
+        });
+        return { promise, resolve };
+    };
+
+    test('given a new edit when rendering then the initial state is retrieved', () => {
+        const { result } = renderHook(() => useEditable('initial', () => Promise.resolve()));
+        expect(result.current.viewState).toEqual(EditableViewState.initial('initial'));
+    });
+
+    test('given a resolving save when committing then the loading and success states are retrieved', async () => {
+        const deferred = givenADeferred();
+        const { result } = renderHook(() => useEditable('initial', () => deferred.promise));
+
+        let commit: Promise<EditableViewState<string>> = Promise.resolve(EditableViewState.initial(''));
+        act(() => {
+            commit = result.current.commit('target');
+        });
+        expect(result.current.viewState).toEqual(EditableViewState.loading('initial', 'target', undefined, systemClock));
+
+        await act(async () => {
+            deferred.resolve();
+            await commit;
+        });
+        expect(result.current.viewState).toEqual(EditableViewState.success('initial', 'target', systemClock));
+    });
+
+    test('given a rejecting save when committing then the failure state is retrieved', async () => {
+        const error = Error('error');
+        const { result } = renderHook(() => useEditable('initial', () => Promise.reject(error)));
+
+        await act(async () => {
+            await result.current.commit('target');
+        });
+
+        expect(result.current.viewState).toEqual(EditableViewState.failure('initial', 'target', error, systemClock));
+    });
+
+    test('given a failure state when retrying then the failed value is saved again', async () => {
+        const save = jest.fn<() => Promise<void>>().mockRejectedValueOnce(Error('error')).mockResolvedValueOnce();
+        const { result } = renderHook(() => useEditable<string>('initial', save));
+
+        await act(async () => {
+            await result.current.commit('target');
+            await result.current.retry();
+        });
+
+        expect(result.current.viewState).toEqual(EditableViewState.success('initial', 'target', systemClock));
+    });
+
+    test('given a save in progress when committing again then only the latest commit settles the state', async () => {
+        const first = givenADeferred();
+        const second = givenADeferred();
+        const save = jest.fn<() => Promise<void>>().mockReturnValueOnce(first.promise).mockReturnValueOnce(second.promise);
+        const { result } = renderHook(() => useEditable<string>('initial', save));
+
+        await act(async () => {
+            const firstCommit = result.current.commit('first');
+            const secondCommit = result.current.commit('second');
+            second.resolve();
+            first.resolve();
+            await Promise.all([firstCommit, secondCommit]);
+        });
+
+        expect(result.current.viewState).toEqual(EditableViewState.success('initial', 'second', systemClock));
+    });
+
+    test('given a save in progress when resetting then the initial state with the current value is retrieved', async () => {
+        const deferred = givenADeferred();
+        const { result } = renderHook(() => useEditable('initial', () => deferred.promise));
+
+        await act(async () => {
+            const commit = result.current.commit('target');
+            result.current.reset();
+            deferred.resolve();
+            await commit;
+        });
+
+        expect(result.current.viewState).toEqual(EditableViewState.initial('initial'));
+    });
+
+    test('given a save in progress when unmounting then the save is aborted', () => {
+        const save = jest.fn<(target: string, signal: AbortSignal) => Promise<void>>().mockReturnValue(givenADeferred().promise);
+        const { result, unmount } = renderHook(() => useEditable<string>('initial', save));
+
+        act(() => {
+            void result.current.commit('target');
+        });
+        unmount();
+
+        expect(save.mock.calls[0]?.[1].aborted).toBeTruthy();
+    });
+});
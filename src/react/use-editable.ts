@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditableViewState } from '../editable-view-state';
+import { EditableViewStateController } from '../editable-view-state-controller';
+
+/**
+ * The result of the `useEditable` hook.
+ *
+ * @template Value The type of the edited value.
+ */
+export interface UseEditableResult<Value> {
+    /** The current state of the edit. */
+    readonly viewState: EditableViewState<Value>;
+
+    /** Aborts the save in progress, if any, and saves the given target value. */
+    readonly commit: (target: Value) => Promise<EditableViewState<Value>>;
+
+    /** Saves the failed value again if the state is a failure. */
+    readonly retry: () => Promise<EditableViewState<Value>>;
+
+    /** Aborts the save in progress, if any, and returns to the initial state with the relevant value. */
+    readonly reset: () => void;
+}
+
+/**
+ * Edits a value with the given asynchronous save function and returns the state of the edit.
+ *
+ * Only the latest commit can settle the state: a save in progress is aborted when a new value is committed, when the edit is reset, or when the component
+ * unmounts.
+ *
+ * @template Value
+ * @param {Value} initialValue - The value to be encapsulated within the initial state.
+ * @param {(Value, AbortSignal) => Promise<void>} save - The asynchronous function that saves a target value.
+ * @return {UseEditableResult<Value>} The current state of the edit and the functions to commit a value, to retry a failed one, and to reset the edit.
+ */
+export function useEditable<Value>(initialValue: Value, save: (target: Value, signal: AbortSignal) => Promise<void>): UseEditableResult<Value> {
+    const [viewState, setViewState] = useState(() => EditableViewState.initial(initialValue));
+
+    const saveRef = useRef(save);
+    saveRef.current = save;
+
+    const isMountedRef = useRef(false);
+
+    const [controller] = useState(
+        () =>
+            new EditableViewStateController<Value>(
+                initialValue,
+                (target, signal) => saveRef.current(target, signal),
+                (viewState) => {
+                    if (isMountedRef.current) setViewState(viewState);
+                },
+            ),
+    );
+
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+            if (controller.isRunning) controller.reset();
+        };
+    }, [controller]);
+
+    const commit = useCallback((target: Value) => controller.commit(target), [controller]);
+
+    const retry = useCallback(() => controller.retry(), [controller]);
+
+    const reset = useCallback(() => controller.reset(), [controller]);
+
+    return { viewState, commit, retry, reset };
+}
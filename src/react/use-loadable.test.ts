@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { systemClock } from '../clock';
+import { LoadableViewState } from '../loadable-view-state';
+import { useLoadable } from './use-loadable';
+
+describe('useLoadable', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.spyOn(Date, 'now').mockReturnValue(1000);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const givenADeferred = () => {
+        let resolve: (value: string) => void = () => {};
+        const promise = new Promise<string>((promiseResolve) => {
+            resolve = promiseResolve;
+        });
+        return { promise, resolve };
+    };
+
+    test('given a resolving fetcher when rendering then the success state is retrieved', async () => {
+        const { result } = renderHook(() => useLoadable(() => Promise.resolve('value'), []));
+
+        expect(result.current.viewState).toEqual(LoadableViewState.loading(undefined, systemClock));
+        await waitFor(() => expect(result.current.viewState).toEqual(LoadableViewState.success('value', systemClock)));
+    });
+
+    test('given a rejecting fetcher when rendering then the failure state is retrieved', async () => {
+        const error = Error('error');
+        const { result } = renderHook(() => useLoadable(() => Promise.reject(error), []));
+
+        await waitFor(() => expect(result.current.viewState).toEqual(LoadableViewState.failure(error, systemClock)));
+    });
+
+    test('given changed dependencies when rerendering then only the latest load settles the state', async () => {
+        const first = givenADeferred();
+        const second = givenADeferred();
+        const fetchers: Record<string, () => Promise<string>> = { first: () => first.promise, second: () => second.promise };
+        const { result, rerender } = renderHook(({ id }) => useLoadable(fetchers[id]!, [id]), { initialProps: { id: 'first' } });
+
+        rerender({ id: 'second' });
+        await act(async () => {
+            second.resolve('second');
+            first.resolve('first');
+        });
+
+        expect(result.current.viewState).toEqual(LoadableViewState.success('second', systemClock));
+    });
+
+    test('given a loaded state when reloading then the value is loaded again', async () => {
+        const fetcher = jest.fn<() => Promise<string>>().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+        const { result } = renderHook(() => useLoadable(fetcher, []));
+        await waitFor(() => expect(result.current.viewState).toEqual(LoadableViewState.success('first', systemClock)));
+
+        await act(async () => {
+            await result.current.reload();
+        });
+
+        expect(fetcher).toBeCalledTimes(2);
+        expect(result.current.viewState).toEqual(LoadableViewState.success('second', systemClock));
+    });
+
+    test('given a load in progress when unmounting then the load is aborted', async () => {
+        const deferred = givenADeferred();
+        const fetcher = jest.fn<(signal: AbortSignal) => Promise<string>>().mockReturnValue(deferred.promise);
+        const { unmount } = renderHook(() => useLoadable(fetcher, []));
+
+        unmount();
+        deferred.resolve('value');
+
+        expect(fetcher.mock.calls[0]?.[0].aborted).toBeTruthy();
+    });
+});
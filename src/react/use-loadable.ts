@@ -0,0 +1,62 @@
+import { DependencyList, useCallback, useEffect, useRef, useState } from 'react';
+import { LoadableViewState } from '../loadable-view-state';
+import { LoadableViewStateLoader } from '../loadable-view-state-loader';
+
+/**
+ * The result of the `useLoadable` hook.
+ *
+ * @template Value The type of the loaded data.
+ */
+export interface UseLoadableResult<Value> {
+    /** The current state of the load. */
+    readonly viewState: LoadableViewState<Value>;
+
+    /** Aborts the load in progress, if any, and loads again. */
+    readonly reload: () => Promise<LoadableViewState<Value>>;
+}
+
+/**
+ * Loads a value with the given asynchronous function every time the dependencies change and returns the state of the load.
+ *
+ * Only the latest load can settle the state: a load in progress is aborted when the dependencies change, when `reload` is called, or when the component
+ * unmounts.
+ *
+ * @template Value
+ * @param {(AbortSignal) => Promise<Value>} fetcher - The asynchronous function that loads the value.
+ * @param {DependencyList} deps - The values the load depends on. The value is loaded again when any of them changes.
+ * @return {UseLoadableResult<Value>} The current state of the load and a function to load again.
+ */
+export function useLoadable<Value>(fetcher: (signal: AbortSignal) => Promise<Value>, deps: DependencyList): UseLoadableResult<Value> {
+    const [viewState, setViewState] = useState(() => LoadableViewState.initial<Value>());
+
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
+
+    const isMountedRef = useRef(false);
+
+    const [loader] = useState(
+        () =>
+            new LoadableViewStateLoader<Value>(
+                (signal) => fetcherRef.current(signal),
+                (viewState) => {
+                    if (isMountedRef.current) setViewState(viewState);
+                },
+            ),
+    );
+
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+            loader.cancel();
+        };
+    }, [loader]);
+
+    useEffect(() => {
+        void loader.load();
+    }, deps);
+
+    const reload = useCallback(() => loader.load(), [loader]);
+
+    return { viewState, reload };
+}
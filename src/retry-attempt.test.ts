@@ -0,0 +1,39 @@
+import { describe, expect, test } from '@jest/globals';
+import { RetryAttempt } from './retry-attempt';
+
+describe('RetryAttempt', () => {
+    test.each([
+        [new RetryAttempt(1, 3, 1500), 1000, 500],
+        [new RetryAttempt(1, 3, 1500), 2000, 0],
+        [new RetryAttempt(3, 3), 1000, null],
+    ])('given %p when getting the time until the next retry at %p then %p is retrieved', (retry, now, expectedMilliseconds) => {
+        expect(retry.millisecondsUntilNextRetry(now)).toBe(expectedMilliseconds);
+    });
+
+    test.each([
+        [new RetryAttempt(2, 5), 'attempt 2/5'],
+        [new RetryAttempt(2, Infinity), 'attempt 2'],
+    ])('given %p when converting to string then %p is returned', (retry, expectedString) => {
+        expect(retry.toString()).toBe(expectedString);
+    });
+
+    test.each([[new RetryAttempt(2, 5, 1500)], [new RetryAttempt(2, Infinity)]])(
+        'given %p when stringifying and restoring then an equal attempt is retrieved',
+        (retry) => {
+            expect(RetryAttempt.fromJSON(JSON.parse(JSON.stringify(retry)))).toEqual(retry);
+        },
+    );
+
+    test.each([[null], [{ maxAttempts: 5 }]])('given %p when restoring then an error is thrown', (json) => {
+        expect(() => RetryAttempt.fromJSON(json)).toThrow();
+    });
+
+    test.each([
+        [new RetryAttempt(2, 5, 1500), new RetryAttempt(2, 5, 1500), true],
+        [new RetryAttempt(2, 5, 1500), new RetryAttempt(2, 5), false],
+        [new RetryAttempt(2, 5), null, false],
+        [null, null, true],
+    ])('given %p and %p when comparing them then %p is returned', (retry, other, expectedEquality) => {
+        expect(RetryAttempt.equals(retry, other)).toBe(expectedEquality);
+    });
+});
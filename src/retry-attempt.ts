@@ -0,0 +1,71 @@
+/**
+ * Describes the attempt of a load that is retried: its number, the maximum number of attempts, and when the next attempt starts, if any.
+ */
+export class RetryAttempt {
+    /**
+     * Creates the description of an attempt.
+     *
+     * @param {number} attempt - The number of the attempt, starting at 1.
+     * @param {number} maxAttempts - The maximum number of attempts, or Infinity if there is no limit.
+     * @param {number | null} nextRetryAt - The time in milliseconds since the epoch at which the next attempt starts, or null if there is none.
+     */
+    constructor(
+        public readonly attempt: number,
+        public readonly maxAttempts: number,
+        public readonly nextRetryAt: number | null = null,
+    ) {}
+
+    /**
+     * Returns an instance restored from the wire format produced by `JSON.stringify`.
+     *
+     * @param {unknown} json - The wire format of the attempt.
+     * @return {RetryAttempt} A new instance of RetryAttempt.
+     * @throws {Error} If the given value is not the wire format of an attempt.
+     */
+    static fromJSON(json: unknown): RetryAttempt {
+        const { attempt, maxAttempts, nextRetryAt } = (json ?? {}) as Record<string, unknown>;
+        if (typeof attempt !== 'number') throw new Error('invalid retry attempt json');
+        return new RetryAttempt(attempt, typeof maxAttempts === 'number' ? maxAttempts : Infinity, typeof nextRetryAt === 'number' ? nextRetryAt : null);
+    }
+
+    /**
+     * Returns true if the given attempts have the same number, maximum number of attempts, and time of the next attempt, or if both are null.
+     *
+     * @param {RetryAttempt | null} retry - The first attempt.
+     * @param {RetryAttempt | null} other - The second attempt.
+     * @return {boolean} True if both attempts are equal.
+     */
+    static equals(retry: RetryAttempt | null, other: RetryAttempt | null): boolean {
+        if (retry === null || other === null) return retry === other;
+        return retry.attempt === other.attempt && retry.maxAttempts === other.maxAttempts && retry.nextRetryAt === other.nextRetryAt;
+    }
+
+    /**
+     * Returns the time left until the next attempt starts, so it can be rendered as a countdown.
+     *
+     * @param {number} now - The current time in milliseconds since the epoch.
+     * @return {number | null} The milliseconds until the next attempt, never negative, or null if there is no next attempt.
+     */
+    millisecondsUntilNextRetry(now: number): number | null {
+        if (this.nextRetryAt === null) return null;
+        return Math.max(this.nextRetryAt - now, 0);
+    }
+
+    /**
+     * Converts the attempt into its wire format. An unlimited maximum number of attempts is converted into null.
+     *
+     * @return {Object} The wire format of the attempt.
+     */
+    toJSON(): { attempt: number; maxAttempts: number | null; nextRetryAt: number | null } {
+        return { attempt: this.attempt, maxAttempts: isFinite(this.maxAttempts) ? this.maxAttempts : null, nextRetryAt: this.nextRetryAt };
+    }
+
+    /**
+     * Converts the attempt into a string representation.
+     *
+     * @return {string} "attempt <attempt>/<maxAttempts>", or "attempt <attempt>" if there is no limit.
+     */
+    toString(): string {
+        return isFinite(this.maxAttempts) ? `attempt ${this.attempt}/${this.maxAttempts}` : `attempt ${this.attempt}`;
+    }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from '@jest/globals';
+import { RetryPolicy } from './retry-policy';
+
+describe('RetryPolicy', () => {
+    const error = Error('error');
+
+    test('given a policy that never retries when getting the delay then null is retrieved', () => {
+        expect(RetryPolicy.none().delayOrNull(1, error)).toBeNull();
+    });
+
+    test('given a fixed policy when getting the delays then the same delay is retrieved until the last attempt', () => {
+        const retryPolicy = RetryPolicy.fixed(500, 3);
+        expect([1, 2, 3].map((attempt) => retryPolicy.delayOrNull(attempt, error))).toEqual([500, 500, null]);
+    });
+
+    test('given an exponential policy when getting the delays then they grow by the factor up to the maximum delay', () => {
+        const retryPolicy = RetryPolicy.exponential({ initialDelay: 100, factor: 3, maxDelay: 1000 });
+        expect([1, 2, 3, 4].map((attempt) => retryPolicy.delayOrNull(attempt, error))).toEqual([100, 300, 900, 1000]);
+    });
+
+    test('given an exponential policy with jitter when getting the delay then a random part of the delay is subtracted', () => {
+        const retryPolicy = RetryPolicy.exponential({ initialDelay: 100, jitter: 0.5, random: () => 0.5 });
+        expect(retryPolicy.delayOrNull(2, error)).toBe(150);
+    });
+
+    test('given a policy with a maximum number of attempts when getting the delay of the last attempt then null is retrieved', () => {
+        const retryPolicy = RetryPolicy.exponential({ initialDelay: 100 }).withMaxAttempts(2);
+        expect(retryPolicy.maxAttempts).toBe(2);
+        expect(retryPolicy.delayOrNull(1, error)).toBe(100);
+        expect(retryPolicy.delayOrNull(2, error)).toBeNull();
+    });
+
+    test('given a policy with a predicate when getting the delay then only the accepted errors are retried', () => {
+        const retryPolicy = RetryPolicy.fixed(500, 3).retryIf((error) => error.message === 'retryable');
+        expect(retryPolicy.delayOrNull(1, Error('retryable'))).toBe(500);
+        expect(retryPolicy.delayOrNull(1, Error('fatal'))).toBeNull();
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * The options of an exponential backoff retry policy.
+ */
+export interface ExponentialBackoffOptions {
+    /** The delay in milliseconds before the first retry. */
+    readonly initialDelay: number;
+
+    /** The maximum number of attempts, including the first one. Defaults to Infinity. */
+    readonly maxAttempts?: number;
+
+    /** The factor by which the delay grows after every retry. Defaults to 2. */
+    readonly factor?: number;
+
+    /** The upper bound of the delay in milliseconds. Defaults to Infinity. */
+    readonly maxDelay?: number;
+
+    /** The fraction of the delay, between 0 and 1, that is randomly subtracted from it to spread the retries. Defaults to 0. */
+    readonly jitter?: number;
+
+    /** The source of random numbers between 0 and 1 used for the jitter. Defaults to `Math.random`. */
+    readonly random?: () => number;
+}
+
+/**
+ * Decides whether a failed attempt of a load is retried and how long to wait before retrying it.
+ */
+export class RetryPolicy {
+    private constructor(
+        public readonly maxAttempts: number,
+        private readonly delayOf: (attempt: number) => number,
+        private readonly shouldRetry: (error: Error, attempt: number) => boolean,
+    ) {}
+
+    /**
+     * Returns a policy that never retries.
+     *
+     * @return {RetryPolicy} A new instance of RetryPolicy.
+     */
+    static none(): RetryPolicy {
+        return new RetryPolicy(
+            1,
+            () => 0,
+            () => false,
+        );
+    }
+
+    /**
+     * Returns a policy that waits the same delay before every retry.
+     *
+     * @param {number} delay - The delay in milliseconds before every retry.
+     * @param {number} maxAttempts - The maximum number of attempts, including the first one.
+     * @return {RetryPolicy} A new instance of RetryPolicy.
+     */
+    static fixed(delay: number, maxAttempts: number): RetryPolicy {
+        return new RetryPolicy(
+            maxAttempts,
+            () => delay,
+            () => true,
+        );
+    }
+
+    /**
+     * Returns a policy whose delay grows exponentially after every retry, optionally bounded and randomly reduced by a jitter.
+     *
+     * @param {ExponentialBackoffOptions} options - The options of the policy.
+     * @return {RetryPolicy} A new instance of RetryPolicy.
+     */
+    static exponential(options: ExponentialBackoffOptions): RetryPolicy {
+        const { initialDelay, maxAttempts = Infinity, factor = 2, maxDelay = Infinity, jitter = 0, random = Math.random } = options;
+        return new RetryPolicy(
+            maxAttempts,
+            (attempt) => {
+                const delay = Math.min(initialDelay * Math.pow(factor, attempt - 1), maxDelay);
+                return delay * (1 - Math.min(Math.max(jitter, 0), 1) * random());
+            },
+            () => true,
+        );
+    }
+
+    /**
+     * Returns a copy of this policy that stops after the given number of attempts.
+     *
+     * @param {number} maxAttempts - The maximum number of attempts, including the first one.
+     * @return {RetryPolicy} A new instance of RetryPolicy.
+     */
+    withMaxAttempts(maxAttempts: number): RetryPolicy {
+        return new RetryPolicy(maxAttempts, this.delayOf, this.shouldRetry);
+    }
+
+    /**
+     * Returns a copy of this policy that only retries the errors accepted by the given predicate.
+     *
+     * @param {(Error, number) => boolean} predicate - A function returning true if the error of the given failed attempt should be retried.
+     * @return {RetryPolicy} A new instance of RetryPolicy.
+     */
+    retryIf(predicate: (error: Error, attempt: number) => boolean): RetryPolicy {
+        return new RetryPolicy(this.maxAttempts, this.delayOf, (error, attempt) => this.shouldRetry(error, attempt) && predicate(error, attempt));
+    }
+
+    /**
+     * Returns the delay before retrying the given failed attempt, or null if it should not be retried.
+     *
+     * @param {number} attempt - The number of the failed attempt, starting at 1.
+     * @param {Error} error - The error the attempt failed with.
+     * @return {number | null} The delay in milliseconds before the next attempt, or null if there is no next attempt.
+     */
+    delayOrNull(attempt: number, error: Error): number | null {
+        if (attempt >= this.maxAttempts || !this.shouldRetry(error, attempt)) return null;
+        return this.delayOf(attempt);
+    }
+}
@@ -0,0 +1,62 @@
+import { Clock } from '../clock';
+
+interface FakeTimer {
+    readonly callback: () => void;
+    readonly at: number;
+}
+
+/**
+ * A clock for tests whose time only moves when advanced, running the callbacks that become due on the way.
+ */
+export class FakeClock implements Clock {
+    private time: number;
+    private timers: FakeTimer[] = [];
+
+    /**
+     * Creates a clock at the given time.
+     *
+     * @param {number} time - The initial time in milliseconds since the epoch. Defaults to 0.
+     */
+    constructor(time: number = 0) {
+        this.time = time;
+    }
+
+    /**
+     * Returns the number of callbacks waiting for their delay to elapse.
+     *
+     * @return {number} The number of scheduled callbacks.
+     */
+    get pendingTimers(): number {
+        return this.timers.length;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    schedule(callback: () => void, delay: number): () => void {
+        const timer = { callback, at: this.time + delay };
+        this.timers.push(timer);
+        return () => {
+            this.timers = this.timers.filter((scheduledTimer) => scheduledTimer !== timer);
+        };
+    }
+
+    /**
+     * Moves the time forward by the given duration, running every callback that becomes due in the order of their due times, including the ones they
+     * schedule.
+     *
+     * @param {number} duration - The duration in milliseconds.
+     */
+    advance(duration: number): void {
+        const target = this.time + duration;
+        for (;;) {
+            const dueTimer = this.timers.filter((timer) => timer.at <= target).sort((timer, other) => timer.at - other.at)[0];
+            if (dueTimer === undefined) break;
+            this.timers = this.timers.filter((timer) => timer !== dueTimer);
+            this.time = dueTimer.at;
+            dueTimer.callback();
+        }
+        this.time = target;
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Converts the given reason into an Error. Errors are returned unchanged, any other reason is wrapped into a new Error whose message describes it.
+ *
+ * @param {unknown} reason - The reason to convert, usually the value a promise was rejected with.
+ * @return {Error} The given reason if it is already an Error, otherwise a new Error describing it.
+ */
+export function toError(reason: unknown): Error {
+    if (reason instanceof Error) return reason;
+    return new Error(String(reason));
+}
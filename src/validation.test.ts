@@ -0,0 +1,28 @@
+import { describe, expect, test } from '@jest/globals';
+import { AsyncValidator, validate, validateAsync, Validator } from './validation';
+
+describe('validation', () => {
+    const required: Validator<string> = (value) => (value.length === 0 ? [{ message: 'required', code: 'required' }] : []);
+    const maxLength: Validator<string> = (value) => (value.length > 5 ? [{ message: 'too long', code: 'max-length' }] : []);
+    const available: AsyncValidator<string> = (value) => Promise.resolve(value === 'taken' ? [{ message: 'not available', path: 'name' }] : []);
+
+    describe('validate', () => {
+        test.each([
+            ['valid', []],
+            ['', [{ message: 'required', code: 'required' }]],
+            ['too long', [{ message: 'too long', code: 'max-length' }]],
+        ])('given %p when validating then %p is retrieved', (value, expectedIssues) => {
+            expect(validate(value, [required, maxLength])).toEqual(expectedIssues);
+        });
+    });
+
+    describe('validateAsync', () => {
+        test.each([
+            ['valid', []],
+            ['taken', [{ message: 'not available', path: 'name' }]],
+            ['', [{ message: 'required', code: 'required' }]],
+        ])('given %p when validating with synchronous and asynchronous validators then %p is retrieved', async (value, expectedIssues) => {
+            expect(await validateAsync(value, [required, available])).toEqual(expectedIssues);
+        });
+    });
+});
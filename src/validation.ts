@@ -0,0 +1,52 @@
+/**
+ * Describes why a value was rejected by a validator.
+ */
+export interface ValidationIssue {
+    /** The message describing the issue. */
+    readonly message: string;
+
+    /** The path of the rejected part of the value, such as a field name, if the issue concerns only a part of it. */
+    readonly path?: string;
+
+    /** A code identifying the kind of the issue, such as "required". */
+    readonly code?: string;
+}
+
+/**
+ * A function that returns the issues of the given value synchronously, or an empty list if the value is valid.
+ *
+ * @template Value The type of the validated value.
+ */
+export type Validator<Value> = (value: Value) => readonly ValidationIssue[];
+
+/**
+ * A function that resolves to the issues of the given value, or to an empty list if the value is valid, such as a validator asking a server.
+ *
+ * @template Value The type of the validated value.
+ */
+export type AsyncValidator<Value> = (value: Value) => Promise<readonly ValidationIssue[]>;
+
+/**
+ * Runs the given validators on the given value and returns their issues, in the order of the validators.
+ *
+ * @template Value
+ * @param {Value} value - The value to validate.
+ * @param {Validator<Value>[]} validators - The validators to run.
+ * @return {ValidationIssue[]} The issues reported by all the validators, or an empty list if the value is valid.
+ */
+export function validate<Value>(value: Value, validators: readonly Validator<Value>[]): ValidationIssue[] {
+    return validators.reduce<ValidationIssue[]>((issues, validator) => issues.concat(validator(value)), []);
+}
+
+/**
+ * Runs the given synchronous and asynchronous validators concurrently on the given value and resolves to their issues, in the order of the validators.
+ *
+ * @template Value
+ * @param {Value} value - The value to validate.
+ * @param {(Validator<Value> | AsyncValidator<Value>)[]} validators - The validators to run.
+ * @return {Promise<ValidationIssue[]>} The issues reported by all the validators, or an empty list if the value is valid.
+ */
+export async function validateAsync<Value>(value: Value, validators: readonly (Validator<Value> | AsyncValidator<Value>)[]): Promise<ValidationIssue[]> {
+    const results = await Promise.all(validators.map((validator) => validator(value)));
+    return results.reduce<ValidationIssue[]>((issues, result) => issues.concat(result), []);
+}
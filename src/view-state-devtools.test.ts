@@ -0,0 +1,51 @@
+import { describe, expect, jest, test } from '@jest/globals';
+import { EditableViewState } from './editable-view-state';
+import { FakeClock } from './test-support/fake-clock';
+import { LoadableViewState } from './loadable-view-state';
+import { devToolsTransitionSink, LocalDevToolsConnection, ViewStateDevToolsMessage } from './view-state-devtools';
+import { ViewStateStore } from './view-state-store';
+import { logViewStateTransitions } from './view-state-transition-logger';
+
+describe('devToolsTransitionSink', () => {
+    const clock = new FakeClock(1000);
+
+    test('given stores sharing a connection when their states change then every transition is sent with the latest states of every store', () => {
+        const connection = new LocalDevToolsConnection();
+        const sink = devToolsTransitionSink(connection);
+        const profileStore = new ViewStateStore(LoadableViewState.initial<string>());
+        const nameStore = new ViewStateStore(EditableViewState.initial('Ada'));
+        logViewStateTransitions('profile', profileStore, [sink], { clock });
+        logViewStateTransitions('name', nameStore, [sink], { clock });
+
+        profileStore.set(LoadableViewState.loading());
+        nameStore.set(EditableViewState.loading('Ada', 'Grace'));
+
+        expect(connection.messages).toEqual([
+            {
+                action: { type: 'profile/loading', timestamp: 1000, duration: 0 },
+                state: { profile: LoadableViewState.loading() },
+            },
+            {
+                action: { type: 'name/loading', timestamp: 1000, duration: 0 },
+                state: { profile: LoadableViewState.loading(), name: EditableViewState.loading('Ada', 'Grace') },
+            },
+        ]);
+    });
+
+    describe('LocalDevToolsConnection', () => {
+        test('given a subscribed listener when sending a message then it is forwarded until the listener is unregistered', () => {
+            const connection = new LocalDevToolsConnection();
+            const listener = jest.fn<(message: ViewStateDevToolsMessage) => void>();
+            const unsubscribe = connection.subscribe(listener);
+            const action = { type: 'profile/loading', timestamp: 1000, duration: 0 };
+
+            connection.send(action, { profile: 'loading' });
+            unsubscribe();
+            connection.send(action, { profile: 'loading' });
+
+            expect(listener).toBeCalledTimes(1);
+            expect(listener).toBeCalledWith({ action, state: { profile: 'loading' } });
+            expect(connection.messages).toHaveLength(2);
+        });
+    });
+});
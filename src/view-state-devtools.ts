@@ -0,0 +1,96 @@
+import { ViewStateTransitionSink } from './view-state-transition-logger';
+
+/**
+ * The action describing a transition in the format of the Redux DevTools, such as `{ type: 'profile/success', ... }`.
+ */
+export interface ViewStateDevToolsAction {
+    /** The name of the store followed by the status of its new state. */
+    readonly type: string;
+
+    /** The time of the transition in milliseconds since the epoch. */
+    readonly timestamp: number;
+
+    /** The time in milliseconds spent in the previous state. */
+    readonly duration: number;
+}
+
+/**
+ * A connection to the Redux DevTools, such as the one returned by `window.__REDUX_DEVTOOLS_EXTENSION__.connect()`.
+ */
+export interface ViewStateDevToolsConnection {
+    /**
+     * Sends the given action together with the state after it.
+     */
+    send(action: ViewStateDevToolsAction, state: Readonly<Record<string, unknown>>): void;
+}
+
+/**
+ * Returns a sink sending every transition to the given Redux DevTools connection. The state sent is the record of the latest states of every store logged
+ * through this sink, keyed by name, so several stores can share a connection.
+ *
+ * @template State
+ * @param {ViewStateDevToolsConnection} connection - The connection receiving the transitions.
+ * @return {ViewStateTransitionSink<State>} A sink sending the transitions.
+ */
+export function devToolsTransitionSink<State extends { readonly status: string }>(connection: ViewStateDevToolsConnection): ViewStateTransitionSink<State> {
+    let states: Readonly<Record<string, unknown>> = {};
+    return (transition) => {
+        states = { ...states, [transition.name]: transition.state };
+        connection.send({ type: `${transition.name}/${transition.state.status}`, timestamp: transition.timestamp, duration: transition.duration }, states);
+    };
+}
+
+/**
+ * A message sent through a Redux DevTools connection.
+ */
+export interface ViewStateDevToolsMessage {
+    /** The action describing the transition. */
+    readonly action: ViewStateDevToolsAction;
+
+    /** The states of the stores after the transition. */
+    readonly state: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * A stand-in for a Redux DevTools connection that keeps the messages sent through it and forwards them to its subscribers, such as to serve them from a
+ * local debugging page or to inspect them in tests when the extension is not available.
+ */
+export class LocalDevToolsConnection implements ViewStateDevToolsConnection {
+    private readonly sentMessages: ViewStateDevToolsMessage[] = [];
+    private readonly listeners = new Set<(message: ViewStateDevToolsMessage) => void>();
+
+    /**
+     * Returns the messages sent through this connection, from the oldest to the latest.
+     *
+     * @return {ViewStateDevToolsMessage[]} The sent messages.
+     */
+    get messages(): readonly ViewStateDevToolsMessage[] {
+        return this.sentMessages;
+    }
+
+    /**
+     * Keeps the given action and state as a message and forwards it to the subscribers.
+     *
+     * @param {ViewStateDevToolsAction} action - The action describing the transition.
+     * @param {Record<string, unknown>} state - The states of the stores after the transition.
+     */
+    send(action: ViewStateDevToolsAction, state: Readonly<Record<string, unknown>>): void {
+        const message = { action, state };
+        this.sentMessages.push(message);
+        this.listeners.forEach((listener) => listener(message));
+    }
+
+    /**
+     * Registers the given listener to be notified of every message sent from now on.
+     *
+     * @param {(ViewStateDevToolsMessage) => void} listener - The callback function to be executed with every message.
+     * @return {() => void} A function that unregisters the listener.
+     */
+    subscribe(listener: (message: ViewStateDevToolsMessage) => void): () => void {
+        const subscription = (message: ViewStateDevToolsMessage) => listener(message);
+        this.listeners.add(subscription);
+        return () => {
+            this.listeners.delete(subscription);
+        };
+    }
+}
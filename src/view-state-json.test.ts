@@ -0,0 +1,39 @@
+import { describe, expect, test } from '@jest/globals';
+import { deserializeError, serializeError } from './view-state-json';
+
+describe('view state json', () => {
+    describe('serializeError', () => {
+        test('given an error with a cause and a code when serializing then every field is kept', () => {
+            const cause = new RangeError('out of range');
+            const error = Object.assign(new Error('error'), { cause, code: 404 });
+
+            expect(serializeError(error)).toEqual({
+                name: 'Error',
+                message: 'error',
+                cause: { name: 'RangeError', message: 'out of range' },
+                code: 404,
+            });
+        });
+
+        test('given an error with a non error cause when serializing then the cause is kept unchanged', () => {
+            const error = Object.assign(new Error('error'), { cause: { status: 500 } });
+            expect(serializeError(error).cause).toEqual({ status: 500 });
+        });
+    });
+
+    describe('deserializeError', () => {
+        test('given a serialized error when deserializing then an equivalent error is retrieved', () => {
+            const error = deserializeError({ name: 'TypeError', message: 'error', cause: { name: 'Error', message: 'cause' }, code: 'E_CODE' });
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error.name).toBe('TypeError');
+            expect(error.message).toBe('error');
+            expect((error as { cause?: unknown }).cause).toBeInstanceOf(Error);
+            expect((error as { code?: unknown }).code).toBe('E_CODE');
+        });
+
+        test.each([[null], [{ message: 'error' }], ['error']])('given %p when deserializing then an error is thrown', (json) => {
+            expect(() => deserializeError(json)).toThrow();
+        });
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * The version of the wire format produced by `toJSON` and accepted by `fromJSON`.
+ */
+export const VIEW_STATE_JSON_VERSION = 1;
+
+/**
+ * The wire format of an Error.
+ */
+export interface SerializedError {
+    readonly name: string;
+    readonly message: string;
+    readonly cause?: unknown;
+    readonly code?: string | number;
+}
+
+/**
+ * Converts the given error into its wire format, keeping its name, message, cause, and code. A cause that is an Error is converted as well.
+ *
+ * @param {Error} error - The error to convert.
+ * @return {SerializedError} The wire format of the error.
+ */
+export function serializeError(error: Error): SerializedError {
+    const { cause, code } = error as { cause?: unknown; code?: unknown };
+    return {
+        name: error.name,
+        message: error.message,
+        ...(cause !== undefined && { cause: cause instanceof Error ? serializeError(cause) : cause }),
+        ...((typeof code === 'string' || typeof code === 'number') && { code }),
+    };
+}
+
+/**
+ * Converts the given wire format back into an Error, restoring its name, message, cause, and code.
+ *
+ * @param {unknown} json - The wire format of the error.
+ * @return {Error} The restored error.
+ * @throws {Error} If the given value is not the wire format of an error.
+ */
+export function deserializeError(json: unknown): Error {
+    if (!isSerializedError(json)) throw new Error('invalid serialized error');
+
+    const error = new Error(json.message);
+    error.name = json.name;
+    if (json.cause !== undefined) Object.assign(error, { cause: isSerializedError(json.cause) ? deserializeError(json.cause) : json.cause });
+    if (json.code !== undefined) Object.assign(error, { code: json.code });
+    return error;
+}
+
+function isSerializedError(json: unknown): json is SerializedError {
+    if (typeof json !== 'object' || json === null) return false;
+    const { name, message } = json as Record<string, unknown>;
+    return typeof name === 'string' && typeof message === 'string';
+}
+
+/**
+ * Parses the given wire format of a view state, checking that it is an object with a supported version.
+ *
+ * @param {unknown} json - The wire format of a view state, either as a JSON string or as an already parsed value.
+ * @return {Record<string, unknown>} The parsed wire format.
+ * @throws {Error} If the given value is not an object or its version is not supported.
+ */
+export function parseViewStateJSON(json: unknown): Record<string, unknown> {
+    const parsedJSON: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+    if (typeof parsedJSON !== 'object' || parsedJSON === null) throw new Error('invalid view state json');
+
+    const viewStateJSON = parsedJSON as Record<string, unknown>;
+    if (viewStateJSON['version'] !== VIEW_STATE_JSON_VERSION) throw new Error(`unsupported view state json version: ${String(viewStateJSON['version'])}`);
+    return viewStateJSON;
+}
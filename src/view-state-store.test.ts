@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { LoadableViewState } from './loadable-view-state';
+import { EditableViewState } from './editable-view-state';
+import { ViewStateStore } from './view-state-store';
+
+describe('ViewStateStore', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const initialViewState = LoadableViewState.initial<string>();
+    const givenAStore = () => new ViewStateStore(initialViewState);
+
+    const listener = jest.fn<(state: LoadableViewState<string>, previousState: LoadableViewState<string>) => void>();
+
+    describe('get', () => {
+        test('given a new store when getting the state then the initial state is retrieved', () => {
+            const store = givenAStore();
+            expect(store.get()).toBe(initialViewState);
+        });
+    });
+
+    describe('set', () => {
+        test('given a subscribed listener when setting a new state then the listener is notified', () => {
+            const store = givenAStore();
+            store.subscribe(listener);
+            const loadingViewState = LoadableViewState.loading<string>();
+
+            store.set(loadingViewState);
+
+            expect(store.get()).toBe(loadingViewState);
+            expect(listener).toBeCalledWith(loadingViewState, initialViewState);
+        });
+
+        test('given a subscribed listener when setting the same state then the listener is not notified', () => {
+            const store = givenAStore();
+            store.subscribe(listener);
+
+            store.set(initialViewState);
+
+            expect(listener).not.toBeCalled();
+        });
+
+        test('given a custom comparator when setting an equal state then the listener is not notified', () => {
+            const store = new ViewStateStore(EditableViewState.initial('value'), (previous, next) => previous.toString() === next.toString());
+            const editableListener = jest.fn();
+            store.subscribe(editableListener);
+
+            store.set(EditableViewState.initial('value'));
+
+            expect(editableListener).not.toBeCalled();
+        });
+    });
+
+    describe('update', () => {
+        test('given a subscribed listener when updating then the transformed state is set', () => {
+            const store = new ViewStateStore(LoadableViewState.success(1));
+            const numberListener = jest.fn();
+            store.subscribe(numberListener);
+
+            store.update((state) => state.map((value) => value + 1));
+
+            expect(store.get().getOrNull()).toBe(2);
+            expect(numberListener).toBeCalledTimes(1);
+        });
+    });
+
+    describe('subscribe', () => {
+        test('given an unsubscribed listener when setting a new state then the listener is not notified', () => {
+            const store = givenAStore();
+            const unsubscribe = store.subscribe(listener);
+
+            unsubscribe();
+            store.set(LoadableViewState.loading());
+
+            expect(listener).not.toBeCalled();
+        });
+    });
+});
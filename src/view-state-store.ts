@@ -0,0 +1,69 @@
+/**
+ * Holds a view state, such as a LoadableViewState or an EditableViewState, and notifies its subscribers every time it changes.
+ *
+ * @template State The type of the view state held by this store.
+ */
+export class ViewStateStore<State> {
+    private readonly listeners = new Set<(state: State, previousState: State) => void>();
+
+    /**
+     * Creates a store holding the given state.
+     *
+     * @template State
+     * @param {State} state - The initial state held by the store.
+     * @param {(State, State) => boolean} isEqual - A function that returns true if two states are equal. Setting a state equal to the current one does not
+     * notify the subscribers. Defaults to `Object.is`.
+     */
+    constructor(
+        private state: State,
+        private readonly isEqual: (previousState: State, state: State) => boolean = Object.is,
+    ) {}
+
+    /**
+     * Returns the current state.
+     *
+     * @template State
+     * @return {State} The current state.
+     */
+    get(): State {
+        return this.state;
+    }
+
+    /**
+     * Replaces the current state and notifies the subscribers, unless the given state is equal to the current one.
+     *
+     * @template State
+     * @param {State} state - The new state.
+     */
+    set(state: State): void {
+        const previousState = this.state;
+        if (this.isEqual(previousState, state)) return;
+        this.state = state;
+        this.listeners.forEach((listener) => listener(state, previousState));
+    }
+
+    /**
+     * Replaces the current state with the result of the given transformation and notifies the subscribers, unless the result is equal to the current state.
+     *
+     * @template State
+     * @param {(State) => State} transform - A function that receives the current state and returns the new one.
+     */
+    update(transform: (state: State) => State): void {
+        this.set(transform(this.state));
+    }
+
+    /**
+     * Registers the given listener to be notified every time the state changes.
+     *
+     * @template State
+     * @param {(State, State) => void} listener - The callback function to be executed with the new and the previous state.
+     * @return {() => void} A function that unregisters the listener.
+     */
+    subscribe(listener: (state: State, previousState: State) => void): () => void {
+        const subscription = (state: State, previousState: State) => listener(state, previousState);
+        this.listeners.add(subscription);
+        return () => {
+            this.listeners.delete(subscription);
+        };
+    }
+}
@@ -0,0 +1,54 @@
+import { Clock } from './clock';
+
+/**
+ * The times, in milliseconds since the epoch, recorded by a view state created with a clock.
+ */
+export interface ViewStateTimestamps {
+    /** The time the loading state started. */
+    readonly loadingStartedAt?: number;
+
+    /** The time the relevant value was loaded or saved, kept by the states that still show it. */
+    readonly loadedAt?: number;
+
+    /** The time the failure state happened. */
+    readonly failedAt?: number;
+}
+
+export const noTimestamps: ViewStateTimestamps = {};
+
+/**
+ * Returns the timestamps of a state entered without an event of its own, such as an invalid state, which only keep the time the previous value was loaded.
+ */
+export function carry(timestamps: ViewStateTimestamps): ViewStateTimestamps {
+    return timestamps.loadedAt !== undefined ? { loadedAt: timestamps.loadedAt } : noTimestamps;
+}
+
+/**
+ * Returns the timestamps of a state entered at the current time of the given clock through the given event, keeping the time the previous value was loaded
+ * unless a new value is loaded. Without a clock, no time is recorded.
+ */
+export function stamp(timestamps: ViewStateTimestamps, event: keyof ViewStateTimestamps, clock: Clock | undefined): ViewStateTimestamps {
+    const carried = event !== 'loadedAt' ? carry(timestamps) : noTimestamps;
+    return clock !== undefined ? { ...carried, [event]: clock.now() } : carried;
+}
+
+/**
+ * Returns the timestamps found in the given wire format of a view state, ignoring the missing ones.
+ *
+ * @throws {Error} If a timestamp is not a number.
+ */
+export function parseTimestamps(viewStateJSON: Record<string, unknown>): ViewStateTimestamps {
+    return (['loadingStartedAt', 'loadedAt', 'failedAt'] as const).reduce<ViewStateTimestamps>((timestamps, event) => {
+        const timestamp = viewStateJSON[event];
+        if (timestamp === undefined) return timestamps;
+        if (typeof timestamp !== 'number') throw new Error(`invalid view state timestamp json: ${event}`);
+        return { ...timestamps, [event]: timestamp };
+    }, noTimestamps);
+}
+
+/**
+ * Returns true if no value was loaded at a recorded time, or if it was loaded more than the given age ago.
+ */
+export function isStale(timestamps: ViewStateTimestamps, maxAge: number, now: number): boolean {
+    return timestamps.loadedAt === undefined || now - timestamps.loadedAt > maxAge;
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { FakeClock } from './test-support/fake-clock';
+import { LoadableViewState } from './loadable-view-state';
+import { ViewStateStore } from './view-state-store';
+import { consoleTransitionSink, logViewStateTransitions, ViewStateTransition, ViewStateTransitionBuffer } from './view-state-transition-logger';
+
+describe('logViewStateTransitions', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const initialViewState = LoadableViewState.initial<string>();
+    const loadingViewState = LoadableViewState.loading<string>();
+    const successViewState = LoadableViewState.success('Ada');
+    const givenAStore = () => new ViewStateStore(initialViewState);
+
+    const sink = jest.fn<(transition: ViewStateTransition<LoadableViewState<string>>) => void>();
+
+    test('given a logged store when its state changes then every transition is passed to the sinks with its timestamp and duration', () => {
+        const clock = new FakeClock(1000);
+        const store = givenAStore();
+        logViewStateTransitions('profile', store, [sink], { clock });
+
+        clock.advance(50);
+        store.set(loadingViewState);
+        clock.advance(120);
+        store.set(successViewState);
+
+        expect(sink.mock.calls.map(([transition]) => transition)).toEqual([
+            { name: 'profile', previousState: initialViewState, state: loadingViewState, timestamp: 1050, duration: 50 },
+            { name: 'profile', previousState: loadingViewState, state: successViewState, timestamp: 1170, duration: 120 },
+        ]);
+    });
+
+    test('given a throwing sink when the state changes then the error is reported and the next sinks receive the transition', () => {
+        const error = Error('sink error');
+        const onSinkError = jest.fn<(error: unknown) => void>();
+        const store = givenAStore();
+        logViewStateTransitions(
+            'profile',
+            store,
+            [
+                () => {
+                    throw error;
+                },
+                sink,
+            ],
+            { onSinkError },
+        );
+
+        store.set(loadingViewState);
+
+        expect(onSinkError).toBeCalledWith(error);
+        expect(sink).toBeCalledTimes(1);
+    });
+
+    test('given a stopped logger when the state changes then nothing is passed to the sinks', () => {
+        const store = givenAStore();
+        const stop = logViewStateTransitions('profile', store, [sink]);
+
+        stop();
+        store.set(loadingViewState);
+
+        expect(sink).not.toBeCalled();
+    });
+
+    describe('consoleTransitionSink', () => {
+        test('given a transition when printing it then the name, the states, and the duration are printed on a line', () => {
+            const clock = new FakeClock(1000);
+            const log = jest.fn<(line: string) => void>();
+            const store = new ViewStateStore(loadingViewState);
+            logViewStateTransitions('profile', store, [consoleTransitionSink(log)], { clock });
+
+            clock.advance(120);
+            store.set(successViewState);
+
+            expect(log).toBeCalledWith('[profile] Loading -> Success: Ada (120 ms)');
+        });
+    });
+
+    describe('ViewStateTransitionBuffer', () => {
+        test('given a full buffer when recording transitions then the oldest ones are forgotten', () => {
+            const buffer = new ViewStateTransitionBuffer<LoadableViewState<string>>(2);
+            const store = givenAStore();
+            logViewStateTransitions('profile', store, [buffer.sink]);
+
+            store.set(loadingViewState);
+            store.set(successViewState);
+            store.set(initialViewState);
+
+            expect(buffer.transitions.map((transition) => transition.state)).toEqual([successViewState, initialViewState]);
+        });
+
+        test.each([[0], [-1], [1.5], [NaN]])('given a capacity of %p when creating a buffer then an error is thrown', (capacity) => {
+            expect(() => new ViewStateTransitionBuffer<LoadableViewState<string>>(capacity)).toThrow();
+        });
+
+        test('given recorded transitions when clearing the buffer then no transition is kept', () => {
+            const buffer = new ViewStateTransitionBuffer<LoadableViewState<string>>();
+            const store = givenAStore();
+            logViewStateTransitions('profile', store, [buffer.sink]);
+            store.set(loadingViewState);
+
+            buffer.clear();
+
+            expect(buffer.transitions).toEqual([]);
+        });
+    });
+});
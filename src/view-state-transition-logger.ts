@@ -0,0 +1,137 @@
+import { Clock, systemClock } from './clock';
+import { ViewStateStore } from './view-state-store';
+
+/**
+ * Describes a change of the view state held by a named store.
+ *
+ * @template State The type of the view state.
+ */
+export interface ViewStateTransition<State> {
+    /** The name of the store whose state changed. */
+    readonly name: string;
+
+    /** The state before the change. */
+    readonly previousState: State;
+
+    /** The state after the change. */
+    readonly state: State;
+
+    /** The time of the change in milliseconds since the epoch. */
+    readonly timestamp: number;
+
+    /** The time in milliseconds spent in the previous state. */
+    readonly duration: number;
+}
+
+/**
+ * A function that records a transition, such as by printing it or sending it to a debugging tool.
+ *
+ * @template State The type of the view state.
+ */
+export type ViewStateTransitionSink<State> = (transition: ViewStateTransition<State>) => void;
+
+/**
+ * The options of logViewStateTransitions.
+ */
+export interface ViewStateTransitionLoggerOptions {
+    /** The clock used to timestamp the transitions. Defaults to the system clock. */
+    readonly clock?: Clock;
+
+    /** The function reporting an error thrown by a sink. Defaults to `console.error`. */
+    readonly onSinkError?: (error: unknown) => void;
+}
+
+/**
+ * Records every change of the state held by the given store as a transition and passes it to the given sinks. The time spent in the first state is counted
+ * from the call. A sink that throws does not keep the next sinks from receiving the transition, nor the store from notifying its other listeners.
+ *
+ * @template State
+ * @param {string} name - The name identifying the store in the transitions.
+ * @param {ViewStateStore<State>} store - The store whose changes are recorded.
+ * @param {ViewStateTransitionSink<State>[]} sinks - The sinks receiving every transition, in order.
+ * @param {ViewStateTransitionLoggerOptions} options - The clock of the logger and the function reporting the errors of the sinks.
+ * @return {() => void} A function that stops recording the changes.
+ */
+export function logViewStateTransitions<State>(
+    name: string,
+    store: ViewStateStore<State>,
+    sinks: readonly ViewStateTransitionSink<State>[],
+    options: ViewStateTransitionLoggerOptions = {},
+): () => void {
+    const clock = options.clock ?? systemClock;
+    const onSinkError = options.onSinkError ?? ((error: unknown) => console.error(error));
+    let enteredAt = clock.now();
+
+    return store.subscribe((state, previousState) => {
+        const timestamp = clock.now();
+        const transition: ViewStateTransition<State> = { name, previousState, state, timestamp, duration: timestamp - enteredAt };
+        enteredAt = timestamp;
+        sinks.forEach((sink) => {
+            try {
+                sink(transition);
+            } catch (error) {
+                onSinkError(error);
+            }
+        });
+    });
+}
+
+/**
+ * Returns a sink printing every transition on a line, such as "[profile] Loading -> Success: Ada (120 ms)".
+ *
+ * @template State
+ * @param {(string) => void} log - The function printing a line. Defaults to `console.log`.
+ * @return {ViewStateTransitionSink<State>} A sink printing the transitions.
+ */
+export function consoleTransitionSink<State>(log: (line: string) => void = (line) => console.log(line)): ViewStateTransitionSink<State> {
+    return (transition) => log(`[${transition.name}] ${String(transition.previousState)} -> ${String(transition.state)} (${transition.duration} ms)`);
+}
+
+/**
+ * Keeps the latest transitions in memory, forgetting the oldest ones once its capacity is reached, so they can be inspected after the fact.
+ *
+ * @template State The type of the view state.
+ */
+export class ViewStateTransitionBuffer<State> {
+    private readonly buffer: ViewStateTransition<State>[] = [];
+    private start = 0;
+
+    /**
+     * Creates an empty buffer.
+     *
+     * @param {number} capacity - The maximum number of transitions kept, a positive integer. Defaults to 100.
+     * @throws {Error} If the capacity is not a positive integer.
+     */
+    constructor(public readonly capacity: number = 100) {
+        if (!Number.isInteger(capacity) || capacity <= 0) throw new Error(`invalid transition buffer capacity: ${capacity}`);
+    }
+
+    /**
+     * The sink recording the transitions into this buffer.
+     */
+    readonly sink: ViewStateTransitionSink<State> = (transition) => {
+        if (this.buffer.length < this.capacity) {
+            this.buffer.push(transition);
+            return;
+        }
+        this.buffer[this.start] = transition;
+        this.start = (this.start + 1) % this.capacity;
+    };
+
+    /**
+     * Returns the kept transitions, from the oldest to the latest.
+     *
+     * @return {ViewStateTransition<State>[]} The kept transitions.
+     */
+    get transitions(): ViewStateTransition<State>[] {
+        return this.buffer.slice(this.start).concat(this.buffer.slice(0, this.start));
+    }
+
+    /**
+     * Forgets every kept transition.
+     */
+    clear(): void {
+        this.buffer.length = 0;
+        this.start = 0;
+    }
+}